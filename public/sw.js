@@ -0,0 +1,98 @@
+/**
+ * Service worker that keeps the studio and its Python runtime available
+ * offline.
+ *
+ * On install it pre-caches the files listed in /pyodide/precache.js (written
+ * by scripts/bundle-pyodide.mjs). Requests for the Pyodide runtime, bundled
+ * wheels, PyPI wheels fetched by micropip and Next.js static chunks are served
+ * cache-first. Page navigations, the wheel manifest and PyPI metadata (which
+ * micropip needs to resolve a package's dependencies) are network-first, so
+ * they stay fresh online and still load offline. Everything else goes straight
+ * to the network.
+ */
+
+// The cache is named after the bundled runtime, so re-bundling a new Pyodide
+// or yaduha version starts a fresh cache and activate drops the old one
+self.PRECACHE = { version: "dev", urls: [] };
+try {
+  importScripts("/pyodide/precache.js");
+} catch {
+  // Runtime not bundled (e.g. dev server) — cache lazily instead
+}
+const CACHE_NAME = `yaduha-runtime-${self.PRECACHE.version}`;
+
+function isCacheable(url) {
+  if (url.origin === self.location.origin) {
+    return (
+      url.pathname.startsWith("/pyodide/") ||
+      url.pathname.startsWith("/wheels/") ||
+      url.pathname.startsWith("/_next/static/")
+    );
+  }
+  return (
+    url.hostname === "cdn.jsdelivr.net" ||
+    url.hostname === "files.pythonhosted.org" ||
+    (url.hostname === "pypi.org" && url.pathname.startsWith("/pypi/"))
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(self.PRECACHE.urls);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys.filter((k) => k !== CACHE_NAME).map((k) => caches.delete(k))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const navigation =
+    request.mode === "navigate" && url.origin === self.location.origin;
+  if (!navigation && !isCacheable(url)) return;
+
+  // Pages change with every deploy, and the wheel manifest and PyPI metadata
+  // when new versions are released: prefer network
+  const networkFirst =
+    navigation ||
+    url.pathname === "/wheels/manifest.json" ||
+    url.hostname === "pypi.org";
+
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+
+      if (!networkFirst) {
+        const cached = await cache.match(request);
+        if (cached) return cached;
+      }
+
+      try {
+        const res = await fetch(request);
+        if (res.ok) cache.put(request, res.clone());
+        return res;
+      } catch (e) {
+        // A page is the same document whatever its query string
+        const cached = await cache.match(request, { ignoreSearch: navigation });
+        if (cached) return cached;
+        throw e;
+      }
+    })()
+  );
+});
@@ -0,0 +1,158 @@
+/**
+ * Copies the Pyodide runtime into public/pyodide and downloads the Python
+ * wheels the studio needs, so the app can serve everything from its own
+ * origin (and the service worker can cache it for offline use).
+ *
+ *   public/pyodide/   Pyodide core + the packages listed in PYODIDE_PACKAGES
+ *   public/wheels/    pinned yaduha wheels + manifest.json
+ *
+ * A step that can't download (offline or sandboxed builds) is skipped with a
+ * warning rather than failing the build; the app then fetches what is missing
+ * from the CDN and PyPI, as it does on the dev server.
+ *
+ * Usage: node scripts/bundle-pyodide.mjs
+ *   YADUHA_VERSIONS=0.3.0,0.3.1   yaduha releases to bundle (default: latest)
+ */
+
+import { createHash } from "node:crypto";
+import { copyFile, mkdir, readFile, rm, writeFile, access } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+
+const require = createRequire(import.meta.url);
+const ROOT = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const PYODIDE_OUT = path.join(ROOT, "public", "pyodide");
+const WHEELS_OUT = path.join(ROOT, "public", "wheels");
+
+/** Pyodide packages loaded by the worker (dependencies are resolved from the lock file). */
+const PYODIDE_PACKAGES = ["micropip", "pydantic", "jedi"];
+
+const CORE_FILES = [
+  "pyodide.js",
+  "pyodide.asm.js",
+  "pyodide.asm.wasm",
+  "python_stdlib.zip",
+  "pyodide-lock.json",
+];
+
+function normalize(name) {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+async function exists(file) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function download(url, dest) {
+  if (await exists(dest)) return;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`GET ${url} -> ${res.status}`);
+  await writeFile(dest, Buffer.from(await res.arrayBuffer()));
+  console.log(`  downloaded ${path.basename(dest)}`);
+}
+
+async function bundleRuntime() {
+  const pkgDir = path.dirname(require.resolve("pyodide/package.json"));
+  const { version } = JSON.parse(await readFile(path.join(pkgDir, "package.json"), "utf8"));
+  await mkdir(PYODIDE_OUT, { recursive: true });
+
+  // The worker only uses the local runtime when pyodide.js is present, so it
+  // is copied last: a failed download below leaves the app on the CDN
+  const loader = path.join(PYODIDE_OUT, "pyodide.js");
+  await rm(loader, { force: true });
+  for (const file of CORE_FILES.filter((f) => f !== "pyodide.js")) {
+    await copyFile(path.join(pkgDir, file), path.join(PYODIDE_OUT, file));
+  }
+
+  // Package wheels are not part of the npm package; fetch them from the CDN
+  const lock = JSON.parse(await readFile(path.join(pkgDir, "pyodide-lock.json"), "utf8"));
+  const packages = new Map(
+    Object.entries(lock.packages).map(([name, info]) => [normalize(name), info])
+  );
+  const needed = new Set();
+  const visit = (name) => {
+    const key = normalize(name);
+    if (needed.has(key)) return;
+    const info = packages.get(key);
+    if (!info) throw new Error(`Package ${name} not in pyodide-lock.json`);
+    needed.add(key);
+    info.depends.forEach(visit);
+  };
+  PYODIDE_PACKAGES.forEach(visit);
+
+  const cdn = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+  const files = [];
+  for (const key of needed) {
+    const fileName = packages.get(key).file_name;
+    await download(cdn + fileName, path.join(PYODIDE_OUT, fileName));
+    files.push(fileName);
+  }
+
+  await copyFile(path.join(pkgDir, "pyodide.js"), loader);
+  console.log(`Pyodide ${version} runtime bundled`);
+  return {
+    version,
+    urls: [...CORE_FILES, ...files].map((f) => `/pyodide/${f}`),
+  };
+}
+
+async function bundleYaduha() {
+  const res = await fetch("https://pypi.org/pypi/yaduha/json");
+  if (!res.ok) throw new Error(`PyPI lookup for yaduha failed: ${res.status}`);
+  const meta = await res.json();
+
+  const versions = process.env.YADUHA_VERSIONS
+    ? process.env.YADUHA_VERSIONS.split(",").map((v) => v.trim()).filter(Boolean)
+    : [meta.info.version];
+
+  await mkdir(WHEELS_OUT, { recursive: true });
+  const manifest = { default: versions[versions.length - 1], yaduha: {} };
+
+  for (const version of versions) {
+    const wheel = (meta.releases[version] ?? []).find(
+      (f) => f.packagetype === "bdist_wheel" && f.filename.endsWith("-none-any.whl")
+    );
+    if (!wheel) throw new Error(`No pure-Python wheel for yaduha ${version}`);
+    await download(wheel.url, path.join(WHEELS_OUT, wheel.filename));
+    manifest.yaduha[version] = wheel.filename;
+  }
+
+  await writeFile(path.join(WHEELS_OUT, "manifest.json"), JSON.stringify(manifest, null, 2));
+  console.log(`yaduha ${versions.join(", ")} bundled`);
+
+  return [
+    "/wheels/manifest.json",
+    ...Object.values(manifest.yaduha).map((f) => `/wheels/${f}`),
+  ];
+}
+
+async function tryBundle(label, step) {
+  try {
+    return await step();
+  } catch (e) {
+    console.warn(`${label} not bundled, the app falls back to the network: ${e.message}`);
+    return null;
+  }
+}
+
+const runtime = await tryBundle("Pyodide runtime", bundleRuntime);
+const wheels = await tryBundle("yaduha wheels", bundleYaduha);
+const urls = [...(runtime?.urls ?? []), ...(wheels ?? [])];
+const precacheFile = path.join(PYODIDE_OUT, "precache.js");
+
+if (urls.length === 0) {
+  await rm(precacheFile, { force: true });
+} else {
+  // Wheel file names carry their versions, so the hash changes with any upgrade
+  const hash = createHash("sha256").update(urls.join("\n")).digest("hex").slice(0, 8);
+  const precache = { version: `${runtime?.version ?? "cdn"}-${hash}`, urls };
+  // Imported by public/sw.js, which names its cache after `version`. Browsers
+  // re-check imported scripts for changes, so a new bundle installs a new worker.
+  await mkdir(PYODIDE_OUT, { recursive: true });
+  await writeFile(precacheFile, `self.PRECACHE = ${JSON.stringify(precache, null, 2)};\n`);
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useSettings } from "@/lib/store";
+import { useSettings, type LLMProvider } from "@/lib/store";
 
 function MaskedInput({
   label,
@@ -41,14 +41,96 @@ function MaskedInput({
   );
 }
 
+/** Models offered by an OpenAI-compatible server, one per line. */
+function ModelList({
+  models,
+  onChange,
+  baseUrl,
+  apiKey,
+}: {
+  models: string[];
+  onChange: (models: string[]) => void;
+  baseUrl: string;
+  apiKey: string;
+}) {
+  const [draft, setDraft] = useState(models.join("\n"));
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function commit(text: string) {
+    onChange(text.split("\n").map((m) => m.trim()).filter(Boolean));
+  }
+
+  async function handleFetch() {
+    setFetching(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/llm/models", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { "x-llm-api-key": apiKey } : {}),
+        },
+        body: JSON.stringify({ baseUrl }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Server returned ${res.status}`);
+      const ids: string[] = (data.data ?? []).map((m: { id: string }) => m.id);
+      setDraft(ids.join("\n"));
+      onChange(ids);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not reach the server");
+    } finally {
+      setFetching(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700">Models</label>
+        <button
+          type="button"
+          onClick={handleFetch}
+          disabled={!baseUrl.trim() || fetching}
+          className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-50"
+        >
+          {fetching ? "Fetching..." : "Fetch from server"}
+        </button>
+      </div>
+      <textarea
+        rows={3}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={(e) => commit(e.target.value)}
+        placeholder={"llama3.1:8b\nqwen2.5:14b"}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus:border-gray-500 focus:outline-none"
+      />
+      {error ? (
+        <p className="text-xs text-red-600 mt-1">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-400 mt-1">
+          One per line. The first is used unless you pick another below.
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function AccountPage() {
   const {
     anthropicKey,
     openaiKey,
+    compatibleKey,
+    compatibleBaseUrl,
+    compatibleModels,
     preferredProvider,
     preferredModel,
     setAnthropicKey,
     setOpenaiKey,
+    setCompatibleKey,
+    setCompatibleBaseUrl,
+    setCompatibleModels,
     setPreferredProvider,
     setPreferredModel,
     clearKeys,
@@ -67,7 +149,8 @@ export default function AccountPage() {
         <h1 className="text-2xl font-bold text-gray-900">Account Settings</h1>
         <p className="text-sm text-gray-500 mt-1">
           API keys are stored locally in your browser and never sent to our
-          servers. They are passed directly to the LLM provider via the proxy.
+          servers. They are passed directly to the LLM provider, or your own
+          OpenAI-compatible server, via the proxy.
         </p>
       </div>
 
@@ -100,16 +183,51 @@ export default function AccountPage() {
           </label>
           <select
             value={preferredProvider}
-            onChange={(e) =>
-              setPreferredProvider(e.target.value as "anthropic" | "openai")
-            }
+            onChange={(e) => setPreferredProvider(e.target.value as LLMProvider)}
             className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
           >
             <option value="anthropic">Anthropic</option>
             <option value="openai">OpenAI</option>
+            <option value="openai-compatible">OpenAI-compatible (self-hosted)</option>
           </select>
         </div>
 
+        {preferredProvider === "openai-compatible" && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Base URL
+              </label>
+              <input
+                type="url"
+                value={compatibleBaseUrl}
+                onChange={(e) => setCompatibleBaseUrl(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Requests go through the studio&apos;s server, so this URL must be
+                reachable from where the studio runs (e.g. localhost when you run
+                it yourself).
+              </p>
+            </div>
+
+            <MaskedInput
+              label="API Key (if the server needs one)"
+              value={compatibleKey}
+              onChange={setCompatibleKey}
+              placeholder="optional"
+            />
+
+            <ModelList
+              models={compatibleModels}
+              onChange={setCompatibleModels}
+              baseUrl={compatibleBaseUrl}
+              apiKey={compatibleKey}
+            />
+          </>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Model (optional override)
@@ -118,13 +236,21 @@ export default function AccountPage() {
             type="text"
             value={preferredModel}
             onChange={(e) => setPreferredModel(e.target.value)}
+            list={preferredProvider === "openai-compatible" ? "compatible-models" : undefined}
             placeholder={
               preferredProvider === "anthropic"
                 ? "claude-sonnet-4-5-20250929"
-                : "gpt-4o"
+                : preferredProvider === "openai"
+                  ? "gpt-4o"
+                  : compatibleModels[0] ?? "model name"
             }
             className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
           />
+          <datalist id="compatible-models">
+            {compatibleModels.map((m) => (
+              <option key={m} value={m} />
+            ))}
+          </datalist>
           <p className="text-xs text-gray-400 mt-1">
             Leave blank to use the default model for the selected provider.
           </p>
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth/session";
+import { parseBaseUrl, toOpenAIMessages, toOpenAITools } from "@/lib/assistant/providers";
+
+// Overridable for deployments that route through a gateway or a self-hosted
+// endpoint reachable from the server
+const ANTHROPIC_BASE_URL = "https://api.anthropic.com/v1";
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
 
 const SSE_HEADERS = {
   "Content-Type": "text/event-stream",
@@ -22,6 +28,21 @@ export async function POST(request: NextRequest) {
   const serverAnthropicKey = process.env.ANTHROPIC_API_KEY;
   const serverOpenaiKey = process.env.OPENAI_API_KEY;
 
+  if (provider === "openai-compatible") {
+    const baseUrl = parseBaseUrl(body.baseUrl);
+    if (!baseUrl) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid base URL for the OpenAI-compatible server. Use an http(s) URL such as http://localhost:11434/v1.",
+        },
+        { status: 400 }
+      );
+    }
+    // Only the user's own key: server keys never go to a user-chosen host
+    return proxyOpenAI(clientKey, body, stream, baseUrl, "OpenAI-compatible server");
+  }
+
   if (provider === "openai") {
     const apiKey = clientKey || serverOpenaiKey;
     if (!apiKey) {
@@ -30,7 +51,7 @@ export async function POST(request: NextRequest) {
         { status: 503 }
       );
     }
-    return proxyOpenAI(apiKey, body, stream);
+    return proxyOpenAI(apiKey, body, stream, process.env.OPENAI_BASE_URL || OPENAI_BASE_URL);
   }
 
   // Default: Anthropic
@@ -41,15 +62,21 @@ export async function POST(request: NextRequest) {
       { status: 503 }
     );
   }
-  return proxyAnthropic(apiKey, body, stream);
+  return proxyAnthropic(
+    apiKey,
+    body,
+    stream,
+    process.env.ANTHROPIC_BASE_URL || ANTHROPIC_BASE_URL
+  );
 }
 
 async function proxyAnthropic(
   apiKey: string,
   body: Record<string, unknown>,
-  stream: boolean
+  stream: boolean,
+  baseUrl: string
 ) {
-  const res = await fetch("https://api.anthropic.com/v1/messages", {
+  const res = await fetch(`${baseUrl}/messages`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -96,34 +123,41 @@ async function proxyAnthropic(
 }
 
 async function proxyOpenAI(
-  apiKey: string,
+  apiKey: string | null,
   body: Record<string, unknown>,
-  stream: boolean
+  stream: boolean,
+  baseUrl: string,
+  label = "OpenAI API"
 ) {
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: body.model || "gpt-4o",
-      max_tokens: body.max_tokens || 4096,
-      messages: [
-        ...(body.system
-          ? [{ role: "system", content: body.system }]
-          : []),
-        ...(body.messages as { role: string; content: string }[]),
-      ],
-      stream,
-      ...(body.tools ? { tools: body.tools } : {}),
-    }),
-  });
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: body.model || "gpt-4o",
+        max_tokens: body.max_tokens || 4096,
+        // Requests arrive in Anthropic's format whatever the provider
+        messages: toOpenAIMessages(body.system as string | undefined, body.messages as unknown[]),
+        stream,
+        ...(body.tools ? { tools: toOpenAITools(body.tools as unknown[]) } : {}),
+      }),
+    });
+  } catch (e) {
+    // A self-hosted server that is down or unreachable from here
+    return NextResponse.json(
+      { error: `${label} unreachable at ${baseUrl}: ${e instanceof Error ? e.message : e}` },
+      { status: 502 }
+    );
+  }
 
   if (!res.ok) {
     const error = await res.text();
     return NextResponse.json(
-      { error: `OpenAI API error: ${error}` },
+      { error: `${label} error: ${error}` },
       { status: res.status }
     );
   }
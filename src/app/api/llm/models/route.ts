@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth/session";
+import { parseBaseUrl } from "@/lib/assistant/providers";
+
+// Model list of a user's OpenAI-compatible server, fetched the same way
+// /api/llm/chat talks to it
+export async function POST(request: NextRequest) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const baseUrl = parseBaseUrl(body.baseUrl);
+  if (!baseUrl) {
+    return NextResponse.json(
+      { error: "Invalid base URL. Use an http(s) URL such as http://localhost:11434/v1." },
+      { status: 400 }
+    );
+  }
+
+  const apiKey = request.headers.get("x-llm-api-key");
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/models`, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: `Server unreachable at ${baseUrl}: ${e instanceof Error ? e.message : e}` },
+      { status: 502 }
+    );
+  }
+
+  if (!res.ok) {
+    return NextResponse.json(
+      { error: `Server returned ${res.status}` },
+      { status: res.status }
+    );
+  }
+  return NextResponse.json(await res.json());
+}
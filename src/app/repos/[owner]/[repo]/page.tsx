@@ -1,14 +1,31 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useParams } from "next/navigation";
 import CodeEditor, { getLanguageFromPath } from "@/components/CodeEditor";
 import FileTree from "@/components/FileTree";
 import TranslatePanel from "@/components/TranslatePanel";
 import ChatPanel from "@/components/ChatPanel";
 import SentenceBuilder from "@/components/builder/SentenceBuilder";
+import ValidationPanel from "@/components/ValidationPanel";
+import TestsPanel from "@/components/TestsPanel";
+import ConsolePanel from "@/components/ConsolePanel";
+import ReplPanel from "@/components/ReplPanel";
+import BuildMenu from "@/components/BuildMenu";
 import { usePyodide } from "@/hooks/usePyodide";
-import type { ValidationResult } from "@/lib/pyodide/manager";
+import type {
+  RequestOptions,
+  ValidationIssue,
+  ValidationResult,
+} from "@/lib/pyodide/manager";
+import { fetchWheelManifest, type WheelManifest } from "@/lib/pyodide/wheels";
+import { useProjects } from "@/lib/store";
+import {
+  GOLD_TESTS_PATH,
+  parseGoldSuite,
+  runRenderCases,
+  type GoldCaseResult,
+} from "@/lib/gold-tests";
 
 interface GitHubFile {
   name: string;
@@ -31,6 +48,27 @@ function decodeBase64Utf8(base64: string): string {
   return new TextDecoder("utf-8").decode(bytes);
 }
 
+/** Tooltip line describing which yaduha the package was validated against. */
+function yaduhaTooltipLine(result: ValidationResult | null): string {
+  if (!result?.yaduha_version) return "";
+  const source = result.yaduha_override
+    ? `pinned in studio${result.yaduha_requirement ? `; pyproject.toml wants ${result.yaduha_requirement}` : ""}`
+    : result.yaduha_requirement
+      ? `pyproject.toml: ${result.yaduha_requirement}`
+      : "no constraint in pyproject.toml";
+  return `\nyaduha ${result.yaduha_version} (${source})`;
+}
+
+function timingTooltipLine(result: ValidationResult | null): string {
+  const timing = result?.timing;
+  if (!timing) return "";
+  const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? "s" : ""}`;
+  return (
+    `\nValidated in ${timing.total_ms} ms (${plural(timing.files_written, "file")} written, ` +
+    `${plural(timing.modules_reloaded.length, "module")} reloaded; load ${timing.load_ms} ms)`
+  );
+}
+
 export default function RepoDetailPage() {
   const params = useParams<{ owner: string; repo: string }>();
   const { owner, repo } = params;
@@ -43,14 +81,29 @@ export default function RepoDetailPage() {
   const [validationResult, setValidationResult] =
     useState<ValidationResult | null>(null);
   const [validating, setValidating] = useState(false);
+  // Newest validation run for the current files, in flight or done, so the
+  // assistant's gold tests reuse it instead of validating again. Cleared
+  // whenever the result is.
+  const validationRunRef = useRef<Promise<ValidationResult | null> | null>(null);
 
-  // Right panel tab: editor (files + code), builder (sentence form), translate
-  const [rightTab, setRightTab] = useState<"editor" | "builder" | "translate">("builder");
+  // Right panel tab: editor (files + code), builder (sentence form), translate, tests, console, repl
+  const [rightTab, setRightTab] = useState<
+    "editor" | "builder" | "translate" | "tests" | "console" | "repl"
+  >("builder");
 
   // Persist tab preference
   useEffect(() => {
     const saved = localStorage.getItem("yaduha-studio-tab");
-    if (saved === "editor" || saved === "builder" || saved === "translate") setRightTab(saved);
+    if (
+      saved === "editor" ||
+      saved === "builder" ||
+      saved === "translate" ||
+      saved === "tests" ||
+      saved === "console" ||
+      saved === "repl"
+    ) {
+      setRightTab(saved);
+    }
   }, []);
   useEffect(() => {
     localStorage.setItem("yaduha-studio-tab", rightTab);
@@ -73,7 +126,53 @@ export default function RepoDetailPage() {
   // Validation tooltip hover
   const [showValidationTooltip, setShowValidationTooltip] = useState(false);
 
-  const { ready: pyodideReady, validate, translate, render } = usePyodide();
+  // Per-project yaduha override ("" = follow pyproject.toml)
+  const repoKey = `${owner}/${repo}`;
+  const pinnedYaduhaVersion = useProjects((s) => s.yaduhaVersions[repoKey] ?? "");
+  const setYaduhaVersion = useProjects((s) => s.setYaduhaVersion);
+  const selectedLanguage = useProjects((s) => s.selectedLanguages[repoKey] ?? "");
+  const setSelectedLanguage = useProjects((s) => s.setSelectedLanguage);
+  const [wheelManifest, setWheelManifest] = useState<WheelManifest | null>(null);
+  useEffect(() => {
+    fetchWheelManifest().then(setWheelManifest);
+  }, []);
+
+  const {
+    ready: pyodideReady,
+    validate,
+    translate,
+    render,
+    renderBatch,
+    repl,
+    build,
+    complete,
+    definition,
+    signatures,
+    consoleEntries,
+    clearConsole,
+  } = usePyodide();
+
+  // Where the editor should place the cursor after opening a file
+  const [revealPosition, setRevealPosition] = useState<{
+    path: string;
+    line: number;
+    column?: number;
+  } | null>(null);
+
+  // Clearing the result makes the auto-validate effect re-run, which
+  // installs the newly selected yaduha version in the worker
+  function handleYaduhaVersionChange(version: string) {
+    if (version === "other") {
+      const entered = window.prompt(
+        "yaduha version to test (installed from PyPI), e.g. 0.4.0"
+      );
+      if (!entered?.trim()) return;
+      version = entered.trim();
+    }
+    setYaduhaVersion(repoKey, version);
+    setValidationResult(null);
+    validationRunRef.current = null;
+  }
 
   // Fetch repo file tree
   const fetchTree = useCallback(async function fetchTreeInner(path = ""): Promise<TreeNode[]> {
@@ -160,8 +259,8 @@ export default function RepoDetailPage() {
   }
 
   // Run validation (uses repoFilesRef to avoid stale closure)
-  const runValidation = useCallback(async () => {
-    if (!pyodideReady) return;
+  const validateFiles = useCallback(async (): Promise<ValidationResult | null> => {
+    if (!pyodideReady) return null;
 
     setValidating(true);
     try {
@@ -187,19 +286,31 @@ export default function RepoDetailPage() {
 
       // Build complete file map for validation using latest ref + fetched
       const allFiles = { ...repoFilesRef.current, ...fetchedMap };
-      const result = await validate(allFiles);
+      repoFilesRef.current = allFiles;
+      const result = await validate(allFiles, {
+        yaduhaVersion: pinnedYaduhaVersion || undefined,
+      });
       setValidationResult(result);
+      return result;
     } catch (e) {
-      setValidationResult({
+      const failed: ValidationResult = {
         valid: false,
         error: e instanceof Error ? e.message : "Validation failed",
         error_type: "Error",
-      });
+      };
+      setValidationResult(failed);
+      return failed;
     } finally {
       setValidating(false);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pyodideReady, tree, validate]);
+  }, [pyodideReady, tree, validate, pinnedYaduhaVersion]);
+
+  const runValidation = useCallback((): Promise<ValidationResult | null> => {
+    const run = validateFiles();
+    validationRunRef.current = run;
+    return run;
+  }, [validateFiles]);
 
   // Auto-validate when pyodide is ready and tree is loaded (initial load only)
   useEffect(() => {
@@ -217,6 +328,7 @@ export default function RepoDetailPage() {
     setDirtyFiles((prev) => new Set(prev).add(selectedFile));
     // Invalidate validation so translate is disabled until next save
     setValidationResult(null);
+    validationRunRef.current = null;
   }
 
   // Save = validate the current in-memory state
@@ -303,28 +415,152 @@ export default function RepoDetailPage() {
     // Refresh the tree in case a new file was created
     fetchTree().then(setTree);
     // Auto-validate after state settles
-    setTimeout(() => runValidation(), 0);
+    // (tracked from now, so gold tests run before the timer wait for it)
+    validationRunRef.current = new Promise((resolve) =>
+      setTimeout(() => resolve(runValidation()), 0)
+    );
   }
 
+  // Jump from a validation issue to the file it points at
+  function handleSelectIssue(issue: ValidationIssue) {
+    if (!issue.file) return;
+    setRightTab("editor");
+    if (issue.line) setRevealPosition({ path: issue.file, line: issue.line });
+    handleSelectFile(issue.file);
+  }
+
+  // Go-to-definition into another file. Stable, like languageService, so the
+  // editor doesn't re-register its Python providers on every render.
+  const selectFileRef = useRef(handleSelectFile);
+  useEffect(() => {
+    selectFileRef.current = handleSelectFile;
+  });
+  const handleOpenFile = useCallback((path: string, line: number, column: number) => {
+    setRevealPosition({ path, line, column });
+    selectFileRef.current(path);
+  }, []);
+
+  // The worker methods read the pool through a ref, so they only need
+  // rebinding when the worker becomes ready
+  const languageService = useMemo(
+    () => (pyodideReady ? { complete, definition, signatures } : undefined),
+    [pyodideReady] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+
+  const getFileContent = useCallback(
+    (path: string): string | undefined => repoFilesRef.current[path],
+    []
+  );
+
+  // Multi-language repos: the selected language scopes the builder,
+  // translation, tests, the REPL and the assistant's run_examples
+  const languages = validationResult?.languages ?? [];
+  const activeLanguage =
+    languages.find((l) => l.code === selectedLanguage) ?? languages[0];
+  const languageCode = activeLanguage?.code;
+  const scopedResult = useMemo<ValidationResult | null>(
+    () =>
+      validationResult && activeLanguage
+        ? {
+            ...validationResult,
+            language: activeLanguage.code,
+            name: activeLanguage.name,
+            sentence_types: activeLanguage.sentence_types,
+            schemas: activeLanguage.schemas,
+          }
+        : validationResult,
+    [validationResult, activeLanguage]
+  );
+
   // Render a sentence via Pyodide
   const handleRender = useCallback(
     async (
       sentenceType: string,
-      data: Record<string, unknown>
+      data: Record<string, unknown>,
+      signal?: AbortSignal
     ): Promise<string | null> => {
       try {
-        const result = await render({ sentenceType, data });
+        const result = await render({ sentenceType, data, language: languageCode }, { signal });
         return result.rendered ?? null;
       } catch {
         return null;
       }
     },
-    [render]
+    [render, languageCode]
+  );
+
+  // Gold tests for the assistant, against the latest files: wait for the
+  // newest validation run, and only start one when the files have changed
+  // since (e.g. unsaved edits)
+  const handleRunGoldTests = useCallback(async (): Promise<GoldCaseResult[] | null> => {
+    const result = (await validationRunRef.current) ?? (await runValidation());
+    const goldFile = repoFilesRef.current[GOLD_TESTS_PATH];
+    if (goldFile === undefined) return null;
+    if (!result?.valid) {
+      throw new Error(`the package is invalid (${result?.error ?? "not validated"})`);
+    }
+    const suite = parseGoldSuite(goldFile);
+    return runRenderCases(suite.render, (sentenceType, data) =>
+      render({ sentenceType, data, language: languageCode })
+    );
+  }, [runValidation, render, languageCode]);
+
+  // Render for the Sentence Builder, keeping the error message
+  const handleBuilderRender = useCallback(
+    (sentenceType: string, data: Record<string, unknown>, signal?: AbortSignal) =>
+      render({ sentenceType, data, language: languageCode }, { signal }),
+    [render, languageCode]
+  );
+
+  const handleRenderBatch = useCallback(
+    (
+      params: { sentenceType: string; items: Record<string, unknown>[] },
+      options?: RequestOptions
+    ) => renderBatch({ ...params, language: languageCode }, options),
+    [renderBatch, languageCode]
+  );
+
+  const handleTestsRender = useCallback(
+    (params: { sentenceType: string; data: Record<string, unknown> }) =>
+      render({ ...params, language: languageCode }),
+    [render, languageCode]
+  );
+
+  const handleTranslate = useCallback(
+    (
+      params: {
+        english: string;
+        provider: string;
+        model: string;
+        apiKey?: string;
+        baseUrl?: string;
+      },
+      options?: RequestOptions
+    ) => translate({ ...params, language: languageCode }, options),
+    [translate, languageCode]
+  );
+
+  const handleRepl = useCallback(
+    (source: string, options?: RequestOptions) =>
+      repl({ source, language: languageCode }, options),
+    [repl, languageCode]
   );
 
   const hasDirtyFiles = dirtyFiles.size > 0;
   const hasUnpushedFiles = unpushedFiles.size > 0;
 
+  // Builds package the files of the last validation, so they must be current
+  // and valid
+  const buildDisabledReason = !pyodideReady
+    ? "Loading Python..."
+    : hasDirtyFiles
+      ? "Save your changes before building"
+      : validating || !validationResult
+        ? "Waiting for validation"
+        : !validationResult.valid
+          ? "Fix validation errors before building"
+          : undefined;
+
   // Validation indicator
   const validationDot = validating
     ? "bg-yellow-400 animate-pulse"
@@ -334,13 +570,18 @@ export default function RepoDetailPage() {
         ? "bg-red-500"
         : "bg-gray-300";
 
-  const validationTooltipText = validating
+  const validationTooltipText = (validating
     ? "Validating..."
     : validationResult?.valid
       ? `${validationResult.name} (${validationResult.language}) — ${validationResult.sentence_types?.length ?? 0} sentence type${(validationResult.sentence_types?.length ?? 0) !== 1 ? "s" : ""}`
       : validationResult
         ? `${validationResult.error_type}: ${validationResult.error}`
-        : "Not yet validated";
+        : "Not yet validated") +
+    (languages.length > 1
+      ? `\n${languages.length} languages: ${languages.map((l) => l.code).join(", ")}`
+      : "") +
+    yaduhaTooltipLine(validationResult) +
+    timingTooltipLine(validationResult);
 
   return (
     <div className="space-y-3">
@@ -363,9 +604,43 @@ export default function RepoDetailPage() {
               </div>
             )}
           </div>
+          {languages.length > 1 && (
+            <select
+              value={activeLanguage?.code}
+              onChange={(e) => setSelectedLanguage(repoKey, e.target.value)}
+              title="Language used by the builder, translation, tests and REPL"
+              className="rounded border border-gray-200 bg-white px-1.5 py-0.5 text-xs text-gray-700 focus:border-gray-400 focus:outline-none"
+            >
+              {languages.map((l) => (
+                <option key={l.code} value={l.code}>
+                  {l.name} ({l.code})
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={pinnedYaduhaVersion}
+            onChange={(e) => handleYaduhaVersionChange(e.target.value)}
+            title="yaduha framework version used for validation and rendering"
+            className="rounded border border-gray-200 bg-white px-1.5 py-0.5 text-xs text-gray-500 focus:border-gray-400 focus:outline-none"
+          >
+            <option value="">yaduha from pyproject.toml</option>
+            {Object.keys(wheelManifest?.yaduha ?? {}).map((v) => (
+              <option key={v} value={v}>
+                yaduha {v}
+              </option>
+            ))}
+            {pinnedYaduhaVersion && !wheelManifest?.yaduha[pinnedYaduhaVersion] && (
+              <option value={pinnedYaduhaVersion}>
+                yaduha {pinnedYaduhaVersion} (PyPI)
+              </option>
+            )}
+            <option value="other">Other version…</option>
+          </select>
         </div>
 
         <div className="flex items-center gap-2">
+          <BuildMenu disabledReason={buildDisabledReason} onBuild={build} />
           <button
             onClick={handleSave}
             disabled={!hasDirtyFiles || validating}
@@ -400,9 +675,10 @@ export default function RepoDetailPage() {
             repo={repo}
             tree={tree}
             selectedFile={selectedFile}
-            validationResult={validationResult}
+            validationResult={scopedResult}
             onFileWrite={handleAssistantFileWrite}
             onRender={handleRender}
+            onRunGoldTests={handleRunGoldTests}
             activeTab={rightTab}
           />
         </div>
@@ -411,7 +687,7 @@ export default function RepoDetailPage() {
         <div className="flex flex-col rounded-lg border border-gray-200 bg-white overflow-hidden">
           {/* Tab bar */}
           <div className="flex border-b border-gray-200 shrink-0">
-            {(["editor", "builder", "translate"] as const).map((tab) => (
+            {(["editor", "builder", "translate", "tests", "console", "repl"] as const).map((tab) => (
               <button
                 key={tab}
                 onClick={() => setRightTab(tab)}
@@ -421,7 +697,10 @@ export default function RepoDetailPage() {
                     : "text-gray-500 hover:text-gray-700"
                 }`}
               >
-                {tab}
+                {tab === "repl" ? "REPL" : tab}
+                {tab === "console" && consoleEntries.length > 0 && (
+                  <span className="ml-1 text-gray-400">({consoleEntries.length})</span>
+                )}
               </button>
             ))}
           </div>
@@ -467,10 +746,24 @@ export default function RepoDetailPage() {
                             value={fileContent}
                             language={getLanguageFromPath(selectedFile)}
                             onChange={handleEditorChange}
-                            validationResult={validationResult}
+                            validationResult={scopedResult}
                             filePath={selectedFile}
+                            languageService={languageService}
+                            getFileContent={getFileContent}
+                            onOpenFile={handleOpenFile}
+                            revealPosition={revealPosition}
                           />
                         </div>
+                        {validationResult &&
+                          (!validationResult.valid || (validationResult.issues?.length ?? 0) > 0) && (
+                          <div className="max-h-56 shrink-0 overflow-y-auto border-t border-gray-200 p-2">
+                            <ValidationPanel
+                              result={validationResult}
+                              loading={validating}
+                              onSelectIssue={handleSelectIssue}
+                            />
+                          </div>
+                        )}
                       </div>
                     )
                   ) : (
@@ -486,20 +779,45 @@ export default function RepoDetailPage() {
 
             {rightTab === "builder" && (
               <SentenceBuilder
-                validationResult={validationResult}
+                validationResult={scopedResult}
                 validating={validating}
-                onRender={handleRender}
+                onRender={handleBuilderRender}
+                onRenderBatch={handleRenderBatch}
+                onSelectIssue={handleSelectIssue}
               />
             )}
 
-            {rightTab === "translate" && (
+            {/* Kept mounted so a running batch survives switching tabs */}
+            <div className={rightTab === "translate" ? "h-full overflow-y-auto" : "hidden"}>
+              <TranslatePanel
+                validationResult={scopedResult}
+                onTranslate={handleTranslate}
+              />
+            </div>
+
+            {rightTab === "tests" && (
               <div className="h-full overflow-y-auto">
-                <TranslatePanel
-                  validationResult={validationResult}
-                  onTranslate={translate}
+                <TestsPanel
+                  validationResult={scopedResult}
+                  goldFile={repoFiles[GOLD_TESTS_PATH]}
+                  onRender={handleTestsRender}
+                  onTranslate={handleTranslate}
                 />
               </div>
             )}
+
+            {rightTab === "console" && (
+              <ConsolePanel entries={consoleEntries} onClear={clearConsole} />
+            )}
+
+            {/* Kept mounted so the transcript survives switching tabs */}
+            <div className={rightTab === "repl" ? "h-full" : "hidden"}>
+              <ReplPanel
+                ready={pyodideReady}
+                sentenceTypes={scopedResult?.sentence_types}
+                onRun={handleRepl}
+              />
+            </div>
           </div>
         </div>
       </div>
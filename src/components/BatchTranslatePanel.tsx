@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RequestOptions, TranslateResult } from "@/lib/pyodide/manager";
+import {
+  detectDelimiter,
+  downloadText,
+  parseDelimited,
+  toDelimited,
+} from "@/lib/csv";
+
+interface BatchTranslatePanelProps {
+  /** Translate one sentence with the user's provider settings */
+  onTranslate: (english: string, options?: RequestOptions) => Promise<TranslateResult>;
+  /** Used to name exported files */
+  languageCode?: string;
+}
+
+type RowStatus = "pending" | "running" | "done" | "error";
+
+interface BatchRow {
+  english: string;
+  status: RowStatus;
+  result?: TranslateResult;
+  error?: string;
+}
+
+/** Header cells that name the column holding the English sentences */
+const ENGLISH_HEADERS = ["english", "sentence", "source", "text", "en"];
+
+function guessEnglishColumn(header: string[]): number {
+  const index = header.findIndex((cell) =>
+    ENGLISH_HEADERS.includes(cell.trim().toLowerCase())
+  );
+  return index === -1 ? 0 : index;
+}
+
+function looksLikeHeader(row: string[]): boolean {
+  return row.some((cell) => ENGLISH_HEADERS.includes(cell.trim().toLowerCase()));
+}
+
+export default function BatchTranslatePanel({
+  onTranslate,
+  languageCode,
+}: BatchTranslatePanelProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(false);
+  const [column, setColumn] = useState(0);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running batch if the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const columnCount = Math.max(0, ...table.map((r) => r.length));
+  const sentences = (hasHeader ? table.slice(1) : table)
+    .map((r) => (r[column] ?? "").trim())
+    .filter(Boolean);
+
+  const finished = rows.filter((r) => r.status === "done" || r.status === "error").length;
+  const failed = rows.filter((r) => r.status === "error").length;
+
+  async function handleFile(file: File) {
+    setParseError(null);
+    setRows([]);
+    try {
+      const text = await file.text();
+      const parsed = parseDelimited(text, detectDelimiter(text, file.name));
+      if (parsed.length === 0) throw new Error("The file has no rows");
+      const header = looksLikeHeader(parsed[0]);
+      setFileName(file.name);
+      setTable(parsed);
+      setHasHeader(header);
+      setColumn(header ? guessEnglishColumn(parsed[0]) : 0);
+    } catch (e) {
+      setFileName(null);
+      setTable([]);
+      setParseError(e instanceof Error ? e.message : "Could not read file");
+    }
+  }
+
+  function updateRow(index: number, patch: Partial<BatchRow>) {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  }
+
+  async function handleRun() {
+    if (sentences.length === 0 || running) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setRows(sentences.map((english) => ({ english, status: "pending" })));
+
+    // One at a time: the translation worker runs a single request anyway,
+    // and sequential rows make the progress meaningful.
+    for (let i = 0; i < sentences.length; i++) {
+      if (controller.signal.aborted) break;
+      updateRow(i, { status: "running" });
+      try {
+        const res = await onTranslate(sentences[i], { signal: controller.signal });
+        updateRow(
+          i,
+          res.ok
+            ? { status: "done", result: res }
+            : { status: "error", result: res, error: res.error || "Translation failed" }
+        );
+      } catch (e) {
+        if (controller.signal.aborted) {
+          updateRow(i, { status: "pending" });
+          break;
+        }
+        updateRow(i, {
+          status: "error",
+          error: e instanceof Error ? e.message : "Translation failed",
+        });
+      }
+    }
+
+    abortRef.current = null;
+    setRunning(false);
+  }
+
+  function handleStop() {
+    abortRef.current?.abort();
+  }
+
+  function exportBaseName() {
+    const stem = fileName?.replace(/\.[^.]+$/, "") || "corpus";
+    return `${stem}-${languageCode || "translations"}`;
+  }
+
+  function handleExportCsv() {
+    const lines = [
+      ["english", "target", "back_translation", "sentence_types", "structured", "error"],
+      ...rows.map((row) => [
+        row.english,
+        row.result?.target ?? "",
+        row.result?.back_translation ?? "",
+        (row.result?.sentence_types ?? []).join(" "),
+        row.result?.sentences ? JSON.stringify(row.result.sentences) : "",
+        row.error ?? "",
+      ]),
+    ];
+    downloadText(`${exportBaseName()}.csv`, toDelimited(lines), "text/csv");
+  }
+
+  function handleExportJsonl() {
+    const lines = rows.map((row) =>
+      JSON.stringify({
+        english: row.english,
+        ok: row.status === "done",
+        target: row.result?.target ?? null,
+        back_translation: row.result?.back_translation ?? null,
+        sentence_types: row.result?.sentence_types ?? [],
+        sentences: row.result?.sentences ?? [],
+        error: row.error ?? null,
+      })
+    );
+    downloadText(`${exportBaseName()}.jsonl`, lines.join("\n") + "\n", "application/x-ndjson");
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">
+          English sentences (CSV or TSV)
+        </label>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          disabled={running}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+          className="block w-full text-xs text-gray-600 file:mr-2 file:rounded-md file:border file:border-gray-300 file:bg-white file:px-2 file:py-1 file:text-xs file:text-gray-700 hover:file:bg-gray-50"
+        />
+        {parseError && <p className="mt-1 text-xs text-red-600">{parseError}</p>}
+      </div>
+
+      {table.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          {columnCount > 1 && (
+            <label className="flex items-center gap-1">
+              Column
+              <select
+                value={column}
+                disabled={running}
+                onChange={(e) => setColumn(Number(e.target.value))}
+                className="rounded border border-gray-300 px-1 py-0.5 text-xs"
+              >
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <option key={i} value={i}>
+                    {hasHeader && table[0][i] ? table[0][i] : `Column ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              disabled={running}
+              onChange={(e) => setHasHeader(e.target.checked)}
+            />
+            First row is a header
+          </label>
+          <span className="text-gray-400">
+            {sentences.length} sentence{sentences.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {running ? (
+          <button
+            onClick={handleStop}
+            className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={sentences.length === 0}
+            className="flex-1 rounded-md bg-gray-900 px-3 py-1.5 text-xs text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Translate {sentences.length || ""} sentence{sentences.length !== 1 ? "s" : ""}
+          </button>
+        )}
+        <button
+          onClick={handleExportCsv}
+          disabled={running || finished === 0}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          CSV
+        </button>
+        <button
+          onClick={handleExportJsonl}
+          disabled={running || finished === 0}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          JSONL
+        </button>
+      </div>
+
+      {rows.length > 0 && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>
+              {finished} / {rows.length} translated
+            </span>
+            {failed > 0 && <span className="text-red-600">{failed} failed</span>}
+          </div>
+          <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-full bg-gray-900 transition-all"
+              style={{ width: `${(finished / rows.length) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto rounded-md border border-gray-200">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="px-2 py-1.5 font-medium">#</th>
+                <th className="px-2 py-1.5 font-medium">English</th>
+                <th className="px-2 py-1.5 font-medium">Target</th>
+                <th className="px-2 py-1.5 font-medium">Back-translation</th>
+                <th className="px-2 py-1.5 font-medium">Types</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row, i) => (
+                <tr key={i} className="align-top">
+                  <td className="px-2 py-1.5 text-gray-400">{i + 1}</td>
+                  <td className="px-2 py-1.5 text-gray-800">{row.english}</td>
+                  {row.status === "error" ? (
+                    <td colSpan={3} className="px-2 py-1.5 text-red-600 font-mono">
+                      {row.result?.error_type ? `${row.result.error_type}: ` : ""}
+                      {row.error}
+                    </td>
+                  ) : row.status === "done" && row.result ? (
+                    <>
+                      <td className="px-2 py-1.5 text-green-900">
+                        {row.result.target}
+                        {row.result.sentences && row.result.sentences.length > 0 && (
+                          <details className="mt-1 text-gray-400">
+                            <summary className="cursor-pointer hover:text-gray-600">
+                              JSON
+                            </summary>
+                            <pre className="mt-1 rounded bg-gray-50 p-1.5 text-[10px] text-gray-600 whitespace-pre-wrap font-mono">
+                              {JSON.stringify(row.result.sentences, null, 2)}
+                            </pre>
+                          </details>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 text-blue-900">
+                        {row.result.back_translation}
+                      </td>
+                      <td className="px-2 py-1.5 text-gray-500">
+                        {row.result.sentence_types?.join(", ")}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-2 py-1.5 text-gray-400">
+                      {row.status === "running" ? "Translating..." : "Waiting"}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { BuildKind, BuildResult } from "@/lib/pyodide/manager";
+
+interface BuildMenuProps {
+  /** Why building is not possible right now; the menu is disabled when set */
+  disabledReason?: string;
+  onBuild: (kind: BuildKind) => Promise<BuildResult>;
+}
+
+const BUILD_OPTIONS: { kind: BuildKind; label: string; hint: string }[] = [
+  { kind: "wheel", label: "Wheel (.whl)", hint: "pip install it anywhere" },
+  { kind: "sdist", label: "Source (.tar.gz)", hint: "sdist with PKG-INFO" },
+  { kind: "zip", label: "Zip", hint: "the whole source tree" },
+];
+
+function downloadBase64(fileName: string, data: string) {
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: "application/octet-stream" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BuildMenu({ disabledReason, onBuild }: BuildMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [building, setBuilding] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    if (open) {
+      document.addEventListener("mousedown", handleClick);
+      return () => document.removeEventListener("mousedown", handleClick);
+    }
+  }, [open]);
+
+  async function handleBuild(kind: BuildKind) {
+    setOpen(false);
+    setBuilding(true);
+    try {
+      const result = await onBuild(kind);
+      if (result.error || !result.file_name || !result.data) {
+        throw new Error(result.error || "Build produced no file");
+      }
+      downloadBase64(result.file_name, result.data);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Build failed");
+    } finally {
+      setBuilding(false);
+    }
+  }
+
+  const disabled = !!disabledReason || building;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={disabledReason ?? "Download the last validated package"}
+        className={`rounded-md border px-4 py-1.5 text-sm transition-colors ${
+          disabled
+            ? "border-gray-100 bg-gray-100 text-gray-400 cursor-not-allowed"
+            : "border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+        } disabled:opacity-50`}
+      >
+        {building ? "Building..." : "Build"}
+      </button>
+
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-52 rounded-md border border-gray-200 bg-white p-1 shadow-lg">
+          {BUILD_OPTIONS.map((option) => (
+            <button
+              key={option.kind}
+              onClick={() => handleBuild(option.kind)}
+              className="block w-full rounded px-2 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-50"
+            >
+              {option.label}
+              <span className="block text-[10px] text-gray-400">{option.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
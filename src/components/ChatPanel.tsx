@@ -2,11 +2,21 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
-import { useSettings, useChatSessions } from "@/lib/store";
+import { useChatSessions } from "@/lib/store";
 import type { DisplayMessage } from "@/lib/store";
-import { TOOL_DEFINITIONS, executeTool } from "@/lib/assistant/tools";
+import {
+  TOOL_DEFINITIONS,
+  checkGoldTests,
+  executeTool,
+  takeGoldBaseline,
+  type ToolContext,
+} from "@/lib/assistant/tools";
 import { buildSystemPrompt } from "@/lib/assistant/system-prompt";
+import { chatErrorMessage, chatRequest, readProviderStream } from "@/lib/assistant/providers";
+import type { StreamHandlers } from "@/lib/assistant/stream";
+import { useTranslationSettings } from "@/hooks/useTranslationSettings";
 import type { ValidationResult } from "@/lib/pyodide/manager";
+import type { GoldCaseResult } from "@/lib/gold-tests";
 
 interface TreeNode {
   name: string;
@@ -25,11 +35,38 @@ interface ChatPanelProps {
   validationResult: ValidationResult | null;
   onFileWrite?: (path: string, content: string) => void;
   onRender?: (sentenceType: string, data: Record<string, unknown>) => Promise<string | null>;
-  activeTab?: "editor" | "builder" | "translate";
+  onRunGoldTests?: () => Promise<GoldCaseResult[] | null>;
+  activeTab?: "editor" | "builder" | "translate" | "tests" | "console" | "repl";
 }
 
 const MAX_TOOL_ITERATIONS = 10;
 
+/** The assistant turn currently streaming in, before it is persisted */
+interface StreamingTurn {
+  text: string;
+  /** Tools the model has started calling */
+  tools: string[];
+}
+
+function toolActivityLabel(name: string, input: any): string {
+  switch (name) {
+    case "write_file":
+      return `Writing ${input.path}...`;
+    case "edit_file":
+      return `Editing ${input.path}...`;
+    case "read_file":
+      return `Reading ${input.path}...`;
+    case "list_files":
+      return "Listing files...";
+    case "run_examples":
+      return "Running examples...";
+    case "run_gold_tests":
+      return "Running gold tests...";
+    default:
+      return `Reading framework: ${input.path}...`;
+  }
+}
+
 export default function ChatPanel({
   owner,
   repo,
@@ -38,18 +75,21 @@ export default function ChatPanel({
   validationResult,
   onFileWrite,
   onRender,
+  onRunGoldTests,
   activeTab = "builder",
 }: ChatPanelProps) {
   const repoKey = `${owner}/${repo}`;
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState<StreamingTurn | null>(null);
   const [showSessionMenu, setShowSessionMenu] = useState(false);
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const { anthropicKey, preferredModel } = useSettings();
+  const providerSettings = useTranslationSettings();
   const {
     getSessions,
     getActiveSession,
@@ -58,6 +98,7 @@ export default function ChatPanel({
     renameSession,
     deleteSession,
     updateSessionMessages,
+    setGoldBaseline,
   } = useChatSessions();
 
   const sessions = getSessions(repoKey);
@@ -82,7 +123,7 @@ export default function ChatPanel({
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [displayMessages]);
+  }, [displayMessages, streaming]);
 
   // Close session menu on outside click
   useEffect(() => {
@@ -98,6 +139,9 @@ export default function ChatPanel({
     }
   }, [showSessionMenu]);
 
+  // Stop a running request when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const persistMessages = useCallback(
     (newDisplay: DisplayMessage[], newApi: any[]) => {
       if (activeSession) {
@@ -107,53 +151,44 @@ export default function ChatPanel({
     [activeSession, updateSessionMessages]
   );
 
-  async function callLLM(messages: any[], system: string) {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    if (anthropicKey) {
-      headers["x-llm-api-key"] = anthropicKey;
-    }
-
-    const res = await fetch("/api/llm/chat", {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        provider: "anthropic",
-        model: preferredModel || "claude-sonnet-4-5-20250929",
-        system,
-        messages,
-        tools: TOOL_DEFINITIONS,
-        stream: false,
-      }),
+  async function callLLM(
+    messages: any[],
+    system: string,
+    handlers: StreamHandlers,
+    signal: AbortSignal
+  ) {
+    const { url, init } = chatRequest(providerSettings, {
+      system,
+      messages,
+      tools: TOOL_DEFINITIONS,
+      stream: true,
     });
+    const res = await fetch(url, { ...init, signal });
 
     if (!res.ok) {
-      const err = await res.json();
-      throw new Error(err.error || `API error ${res.status}`);
+      throw new Error(await chatErrorMessage(res));
     }
 
-    return res.json();
+    return readProviderStream(providerSettings.provider, res, handlers);
   }
 
-  async function sendMessage() {
-    if (!input.trim() || loading || !activeSession) return;
-
-    const userText = input.trim();
-    setInput("");
+  /**
+   * Run model turns and tool calls until the model stops asking for tools,
+   * the iteration cap is hit, or the user presses Stop. Every tool_use the
+   * model issued gets a tool_result, so the conversation can always resume.
+   * On errors the session keeps everything up to the last round of tool
+   * results, which may have changed files, else falls back to `restoreApi`.
+   */
+  async function runAgent(
+    startApi: any[],
+    startDisplay: DisplayMessage[],
+    restoreApi: any[]
+  ) {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
     setLoading(true);
 
-    const newDisplay: DisplayMessage[] = [
-      ...displayMessages,
-      { type: "user", content: userText },
-    ];
-    persistMessages(newDisplay, apiMessages);
-
-    const newApiMessages = [
-      ...apiMessages,
-      { role: "user", content: userText },
-    ];
-
     const system = buildSystemPrompt({
       owner,
       repo,
@@ -163,19 +198,71 @@ export default function ChatPanel({
       activeTab,
     });
 
+    let messages = startApi;
+    let currentDisplay = startDisplay;
+    // Text of the turn being streamed, kept if the user stops mid-turn
+    let partialText = "";
+    // Conversation through the last completed round of tool results, kept on
+    // errors so the history still matches what the tools changed
+    let savedApi = restoreApi;
+    let savedDisplay = startDisplay;
+
+    // Gold outcomes from the session's last run, to report regressions against
+    const sessionId = activeSession?.id;
+    let goldBaseline = activeSession?.goldBaseline;
+    const recordGoldResults = (outcomes: Record<string, boolean>) => {
+      goldBaseline = outcomes;
+      if (sessionId) setGoldBaseline(sessionId, outcomes);
+    };
+
     try {
-      let messages = newApiMessages;
-      let currentDisplay = newDisplay;
+      // A new session starts from the files as they are, so its first write
+      // can already report regressions
+      if (!goldBaseline) {
+        const seed = await takeGoldBaseline({ owner, repo, onRunGoldTests });
+        if (seed) recordGoldResults(seed);
+      }
+
       let iterations = 0;
 
-      while (iterations < MAX_TOOL_ITERATIONS) {
+      while (!signal.aborted) {
+        if (iterations >= MAX_TOOL_ITERATIONS) {
+          currentDisplay = [
+            ...currentDisplay,
+            {
+              type: "tool-activity",
+              content: `Paused after ${MAX_TOOL_ITERATIONS} rounds of tool calls.`,
+            },
+          ];
+          break;
+        }
         iterations++;
-        const response = await callLLM(messages, system);
 
-        messages = [
-          ...messages,
-          { role: "assistant", content: response.content },
-        ];
+        partialText = "";
+        setStreaming({ text: "", tools: [] });
+        const response = await callLLM(
+          messages,
+          system,
+          {
+            onText: (delta) => {
+              partialText += delta;
+              setStreaming((prev) => prev && { ...prev, text: prev.text + delta });
+            },
+            onToolUseStart: ({ name }) =>
+              setStreaming((prev) => prev && { ...prev, tools: [...prev.tools, name] }),
+          },
+          signal
+        );
+        partialText = "";
+        setStreaming(null);
+
+        // A reply cut off before any text leaves nothing worth keeping
+        if (response.content.length > 0) {
+          messages = [
+            ...messages,
+            { role: "assistant", content: response.content },
+          ];
+        }
 
         // Extract text for display
         const textBlocks = response.content
@@ -191,6 +278,16 @@ export default function ChatPanel({
           persistMessages(currentDisplay, messages);
         }
 
+        if (response.stop_reason === "max_tokens") {
+          currentDisplay = [
+            ...currentDisplay,
+            {
+              type: "tool-activity",
+              content: "Reply cut off at the model's output limit. Ask it to continue.",
+            },
+          ];
+          break;
+        }
         if (response.stop_reason !== "tool_use") {
           break;
         }
@@ -202,32 +299,46 @@ export default function ChatPanel({
 
         const toolResults: any[] = [];
         for (const toolUse of toolUseBlocks) {
-          const activityLabel =
-            toolUse.name === "write_file"
-              ? `Writing ${toolUse.input.path}...`
-              : toolUse.name === "read_file"
-                ? `Reading ${toolUse.input.path}...`
-                : toolUse.name === "list_files"
-                  ? `Listing files...`
-                  : toolUse.name === "run_examples"
-                    ? `Running examples...`
-                    : `Reading framework: ${toolUse.input.path}...`;
+          if (signal.aborted) {
+            toolResults.push({
+              type: "tool_result",
+              tool_use_id: toolUse.id,
+              content: "Not run: stopped by the user.",
+            });
+            continue;
+          }
 
           currentDisplay = [
             ...currentDisplay,
-            { type: "tool-activity", content: activityLabel },
+            { type: "tool-activity", content: toolActivityLabel(toolUse.name, toolUse.input) },
           ];
           persistMessages(currentDisplay, messages);
 
-          const result = await executeTool(toolUse.name, toolUse.input, {
+          const toolContext: ToolContext = {
             owner,
             repo,
             validationResult,
             onRender,
-          });
+            onRunGoldTests,
+            onFileWrite,
+            goldBaseline,
+            onGoldResults: recordGoldResults,
+            signal,
+          };
+          const writesFile = toolUse.name === "write_file" || toolUse.name === "edit_file";
+
+          let result: string;
+          try {
+            result = await executeTool(toolUse.name, toolUse.input, toolContext);
+          } catch (e) {
+            if (!signal.aborted) throw e;
+            result = "Interrupted: stopped by the user.";
+          }
 
-          if (toolUse.name === "write_file" && !result.startsWith("Error")) {
-            onFileWrite?.(toolUse.input.path, toolUse.input.content);
+          // Report gold-test regressions while the change is fresh
+          if (writesFile && result.startsWith("Successfully") && !signal.aborted) {
+            const goldReport = await checkGoldTests(toolContext);
+            if (goldReport) result += `\n\n${goldReport}`;
           }
 
           toolResults.push({
@@ -238,24 +349,77 @@ export default function ChatPanel({
         }
 
         messages = [...messages, { role: "user", content: toolResults }];
+        savedApi = messages;
+        savedDisplay = currentDisplay;
       }
 
+      if (signal.aborted) {
+        currentDisplay = [...currentDisplay, { type: "tool-activity", content: "Stopped." }];
+      }
       persistMessages(currentDisplay, messages);
     } catch (e) {
-      const errorDisplay: DisplayMessage[] = [
-        ...displayMessages,
-        { type: "user", content: userText },
-        {
-          type: "assistant",
-          content: `Error: ${e instanceof Error ? e.message : "Request failed"}`,
-        },
-      ];
-      persistMessages(errorDisplay, apiMessages);
+      if (signal.aborted) {
+        // Stopped mid-stream: keep what the model had said, drop any
+        // half-streamed tool calls
+        if (partialText) {
+          messages = [
+            ...messages,
+            { role: "assistant", content: [{ type: "text", text: partialText }] },
+          ];
+          currentDisplay = [...currentDisplay, { type: "assistant", content: partialText }];
+        }
+        currentDisplay = [...currentDisplay, { type: "tool-activity", content: "Stopped." }];
+        persistMessages(currentDisplay, messages);
+      } else {
+        const errorDisplay: DisplayMessage[] = [
+          ...savedDisplay,
+          {
+            type: "assistant",
+            content: `Error: ${e instanceof Error ? e.message : "Request failed"}`,
+          },
+        ];
+        persistMessages(errorDisplay, savedApi);
+      }
     } finally {
+      abortRef.current = null;
+      setStreaming(null);
       setLoading(false);
     }
   }
 
+  async function sendMessage() {
+    if (!input.trim() || loading || !activeSession) return;
+
+    const userText = input.trim();
+    setInput("");
+
+    const newDisplay: DisplayMessage[] = [
+      ...displayMessages,
+      { type: "user", content: userText },
+    ];
+    persistMessages(newDisplay, apiMessages);
+
+    await runAgent(
+      [...apiMessages, { role: "user", content: userText }],
+      newDisplay,
+      apiMessages
+    );
+  }
+
+  // Pick up where a paused or stopped run left off, i.e. after tool results
+  // the model has not seen yet
+  const lastApiMessage = apiMessages[apiMessages.length - 1];
+  const canContinue =
+    !loading &&
+    lastApiMessage?.role === "user" &&
+    Array.isArray(lastApiMessage.content) &&
+    lastApiMessage.content.some((b: any) => b.type === "tool_result");
+
+  async function continueRun() {
+    if (!canContinue || !activeSession) return;
+    await runAgent(apiMessages, displayMessages, apiMessages);
+  }
+
   function handleNewSession() {
     createSession(repoKey);
     setShowSessionMenu(false);
@@ -431,11 +595,32 @@ export default function ChatPanel({
             </div>
           );
         })}
-        {loading && (
+        {streaming?.text && (
+          <div className="text-sm rounded-md p-2 bg-blue-50 text-gray-800">
+            <span className="font-medium text-xs text-gray-500 block mb-1">Assistant</span>
+            <div className="prose prose-sm prose-gray max-w-none break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+              <ReactMarkdown>{streaming.text}</ReactMarkdown>
+            </div>
+          </div>
+        )}
+        {streaming?.tools.map((name, i) => (
+          <div key={i} className="text-xs text-gray-400 italic px-2 py-0.5">
+            Calling {name}...
+          </div>
+        ))}
+        {loading && !streaming?.text && !streaming?.tools.length && (
           <div className="text-xs text-gray-400 italic px-2 py-0.5">
             Thinking...
           </div>
         )}
+        {canContinue && (
+          <button
+            onClick={continueRun}
+            className="rounded-md border border-gray-200 px-2 py-1 text-xs text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-colors"
+          >
+            Continue
+          </button>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -455,13 +640,22 @@ export default function ChatPanel({
             placeholder="Ask about your language package..."
             className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-gray-500 focus:outline-none resize-none overflow-y-auto"
           />
-          <button
-            onClick={sendMessage}
-            disabled={loading || !input.trim()}
-            className="rounded-md bg-gray-900 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
-          >
-            Send
-          </button>
+          {loading ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={sendMessage}
+              disabled={!input.trim()}
+              className="rounded-md bg-gray-900 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -8,6 +8,9 @@ import {
   registerYaduhaProviders,
   updateValidationMarkers,
   applyYaduhaDecorations,
+  setPythonLanguageService,
+  setHoverValidationResult,
+  type PythonLanguageService,
 } from "@/lib/monaco";
 import type { ValidationResult } from "@/lib/pyodide/manager";
 
@@ -18,6 +21,14 @@ interface CodeEditorProps {
   readOnly?: boolean;
   validationResult?: ValidationResult | null;
   filePath?: string | null;
+  /** Jedi-backed completions, go-to-definition and signature help */
+  languageService?: PythonLanguageService;
+  /** Contents of other repo files, for peeking at definitions */
+  getFileContent?: (path: string) => string | undefined;
+  /** Called when go-to-definition lands in another file */
+  onOpenFile?: (path: string, line: number, column: number) => void;
+  /** Scroll to and place the cursor here once `path` is open */
+  revealPosition?: { path: string; line: number; column?: number } | null;
 }
 
 function getLanguageFromPath(path?: string): string {
@@ -37,11 +48,16 @@ export default function CodeEditor({
   readOnly = false,
   validationResult,
   filePath,
+  languageService,
+  getFileContent,
+  onOpenFile,
+  revealPosition,
 }: CodeEditorProps) {
   const editorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null);
   const monacoRef = useRef<Monaco | null>(null);
   const decorationsRef =
     useRef<MonacoEditor.IEditorDecorationsCollection | null>(null);
+  const revealedRef = useRef<CodeEditorProps["revealPosition"]>(null);
 
   const refreshDecorations = useCallback(() => {
     if (!editorRef.current) return;
@@ -50,11 +66,26 @@ export default function CodeEditor({
     decorationsRef.current = applyYaduhaDecorations(editorRef.current);
   }, []);
 
+  const revealPending = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealPosition || revealedRef.current === revealPosition) return;
+    if (revealPosition.path !== filePath) return;
+    revealedRef.current = revealPosition;
+    const position = {
+      lineNumber: revealPosition.line,
+      column: revealPosition.column ?? 1,
+    };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+  }, [revealPosition, filePath]);
+
   const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
     registerYaduhaProviders(monaco);
     refreshDecorations();
+    revealPending();
 
     // Re-apply decorations when content changes
     editor.onDidChangeModelContent(() => {
@@ -62,6 +93,11 @@ export default function CodeEditor({
     });
   };
 
+  // Hovers over package symbols read the latest schemas
+  useEffect(() => {
+    setHoverValidationResult(validationResult ?? null);
+  }, [validationResult]);
+
   // Update validation markers when result or file changes
   useEffect(() => {
     if (monacoRef.current && editorRef.current) {
@@ -74,6 +110,23 @@ export default function CodeEditor({
     }
   }, [validationResult, filePath]);
 
+  // Point the Python providers at this editor's file and worker
+  useEffect(() => {
+    if (!languageService || !filePath || !getFileContent || !onOpenFile) return;
+    setPythonLanguageService({
+      service: languageService,
+      filePath,
+      getFileContent,
+      onOpenFile,
+    });
+    return () => setPythonLanguageService(null);
+  }, [languageService, filePath, getFileContent, onOpenFile]);
+
+  // Runs after the new file's content is in the model
+  useEffect(() => {
+    revealPending();
+  }, [revealPending, value]);
+
   // Re-apply decorations when switching files
   useEffect(() => {
     refreshDecorations();
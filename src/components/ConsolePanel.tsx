@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { ConsoleEntry } from "@/hooks/usePyodide";
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString(undefined, { hour12: false });
+}
+
+export default function ConsolePanel({ entries, onClear }: ConsolePanelProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Follow new output like a terminal
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [entries]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b border-gray-200 px-3 py-1.5 shrink-0">
+        <span className="text-xs text-gray-500">
+          print() output and warnings from your package
+        </span>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={entries.length === 0}
+          className="rounded-md border border-gray-200 px-2 py-0.5 text-xs text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto bg-gray-50 p-2 font-mono text-xs">
+        {entries.length === 0 ? (
+          <p className="p-2 font-sans text-gray-400">
+            Nothing printed yet. Add <span className="font-mono">print()</span> calls
+            to your sentence types and save, render or translate to see their output here.
+          </p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="mb-2">
+              <div className="flex gap-2 text-[10px] text-gray-400">
+                <span>{formatTime(entry.time)}</span>
+                <span className="uppercase">{entry.source}</span>
+                {entry.label && <span className="truncate">{entry.label}</span>}
+              </div>
+              {entry.lines.map((line, i) => (
+                <div
+                  key={i}
+                  className={`whitespace-pre-wrap break-words ${
+                    line.stream === "stderr" ? "text-red-600" : "text-gray-800"
+                  }`}
+                >
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
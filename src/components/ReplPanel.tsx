@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { ReplResult, ReplValue, RequestOptions } from "@/lib/pyodide/manager";
+
+interface ReplPanelProps {
+  ready: boolean;
+  /** Sentence types in scope, from the last validation */
+  sentenceTypes?: string[];
+  onRun: (source: string, options?: RequestOptions) => Promise<ReplResult>;
+}
+
+interface ReplEntry {
+  id: number;
+  source: string;
+  /** null while running */
+  result: ReplResult | null;
+}
+
+const MAX_HISTORY = 100;
+const INDENT = "    ";
+
+function ValueView({ value }: { value: ReplValue }) {
+  if (value.type === undefined) {
+    return <div className="whitespace-pre-wrap break-words text-gray-800">{value.repr}</div>;
+  }
+  return (
+    <div className="rounded border border-gray-200 bg-white p-2 space-y-1">
+      <div className="text-[10px] text-gray-400 font-sans">{value.type}</div>
+      {value.render_error !== undefined ? (
+        <div className="text-red-600">str() raised {value.render_error}</div>
+      ) : (
+        <div className="text-gray-900 font-sans text-sm">{value.rendered}</div>
+      )}
+      <details>
+        <summary className="cursor-pointer select-none text-[10px] text-gray-500 font-sans">
+          JSON
+        </summary>
+        <pre className="mt-1 whitespace-pre-wrap text-gray-700">{value.json}</pre>
+      </details>
+    </div>
+  );
+}
+
+/** Indentation for the line after `line`, as the Python REPL would continue it. */
+function continuationIndent(line: string): string {
+  const indent = line.match(/^\s*/)?.[0] ?? "";
+  return line.trimEnd().endsWith(":") ? indent + INDENT : indent;
+}
+
+export default function ReplPanel({ ready, sentenceTypes, onRun }: ReplPanelProps) {
+  const [entries, setEntries] = useState<ReplEntry[]>([]);
+  const [input, setInput] = useState("");
+  const [running, setRunning] = useState(false);
+  const history = useRef<string[]>([]);
+  // Position while browsing history; history.length means the live input
+  const historyIndex = useRef(0);
+  const draft = useRef("");
+  const nextId = useRef(1);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [entries]);
+
+  async function run(source: string) {
+    if (!source.trim() || running) return;
+
+    if (history.current[history.current.length - 1] !== source) {
+      history.current = [...history.current, source].slice(-MAX_HISTORY);
+    }
+    historyIndex.current = history.current.length;
+    draft.current = "";
+
+    const id = nextId.current++;
+    setEntries((prev) => [...prev, { id, source, result: null }]);
+    setInput("");
+    setRunning(true);
+
+    let result: ReplResult;
+    try {
+      result = await onRun(source);
+    } catch (e) {
+      result = { error: e instanceof Error ? e.message : "REPL request failed" };
+    }
+    setEntries((prev) => prev.map((entry) => (entry.id === id ? { ...entry, result } : entry)));
+    setRunning(false);
+    inputRef.current?.focus();
+  }
+
+  function insertAtCursor(el: HTMLTextAreaElement, text: string) {
+    const next = input.slice(0, el.selectionStart) + text + input.slice(el.selectionEnd);
+    const caret = el.selectionStart + text.length;
+    setInput(next);
+    requestAnimationFrame(() => el.setSelectionRange(caret, caret));
+  }
+
+  function browseHistory(el: HTMLTextAreaElement, step: -1 | 1) {
+    const index = historyIndex.current + step;
+    if (index < 0 || index > history.current.length) return;
+    if (historyIndex.current === history.current.length) draft.current = input;
+    historyIndex.current = index;
+    const next = index === history.current.length ? draft.current : history.current[index];
+    setInput(next);
+    requestAnimationFrame(() => el.setSelectionRange(next.length, next.length));
+  }
+
+  function handleKeyDown(e: KeyboardEvent<HTMLTextAreaElement>) {
+    const el = e.currentTarget;
+    const before = input.slice(0, el.selectionStart);
+    const currentLine = before.slice(before.lastIndexOf("\n") + 1);
+
+    if (e.key === "Enter") {
+      if (e.metaKey || e.ctrlKey) {
+        e.preventDefault();
+        run(input);
+        return;
+      }
+      // Inside a block, Enter continues it; a blank line (or Shift+Enter
+      // outside one) behaves as in the Python REPL
+      const inBlock = input.includes("\n") || currentLine.trimEnd().endsWith(":");
+      if (e.shiftKey || (inBlock && currentLine.trim() !== "")) {
+        e.preventDefault();
+        insertAtCursor(el, "\n" + continuationIndent(currentLine));
+        return;
+      }
+      e.preventDefault();
+      run(input);
+    } else if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      insertAtCursor(el, INDENT);
+    } else if (e.key === "ArrowUp" && !before.includes("\n")) {
+      e.preventDefault();
+      browseHistory(el, -1);
+    } else if (e.key === "ArrowDown" && !input.slice(el.selectionEnd).includes("\n")) {
+      e.preventDefault();
+      browseHistory(el, 1);
+    }
+  }
+
+  const scope = ["language", ...(sentenceTypes ?? [])];
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-gray-200 px-3 py-1.5 shrink-0">
+        <span className="min-w-0 truncate text-xs text-gray-500">
+          In scope: <span className="font-mono">{scope.join(", ")}</span>
+        </span>
+        <button
+          type="button"
+          onClick={() => setEntries([])}
+          disabled={entries.length === 0}
+          className="shrink-0 rounded-md border border-gray-200 px-2 py-0.5 text-xs text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div
+        className="flex-1 min-h-0 overflow-y-auto bg-gray-50 p-2 font-mono text-xs"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {entries.length === 0 && (
+          <p className="p-2 font-sans text-gray-400">
+            Runs Python in the same worker as the builder, after your package has
+            loaded. Import your own modules to inspect vocabulary and helpers. Enter
+            runs, Shift+Enter adds a line, ↑/↓ browse history.
+          </p>
+        )}
+        {entries.map((entry) => (
+          <div key={entry.id} className="mb-2">
+            {entry.source.split("\n").map((line, i) => (
+              <div key={i} className="whitespace-pre-wrap break-words text-gray-500">
+                <span className="select-none text-gray-400">{i === 0 ? ">>> " : "... "}</span>
+                {line}
+              </div>
+            ))}
+            {entry.result === null ? (
+              <div className="text-gray-400">…</div>
+            ) : (
+              <>
+                {entry.result.output?.map((line, i) => (
+                  <div
+                    key={i}
+                    className={`whitespace-pre-wrap break-words ${
+                      line.stream === "stderr" ? "text-red-600" : "text-gray-800"
+                    }`}
+                  >
+                    {line.text}
+                  </div>
+                ))}
+                {entry.result.value && <ValueView value={entry.result.value} />}
+                {entry.result.error && (
+                  <div className="whitespace-pre-wrap break-words text-red-600">
+                    {entry.result.error}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+        <div className="flex items-start">
+          <span className="select-none pt-px text-gray-400">&gt;&gt;&gt;&nbsp;</span>
+          <textarea
+            ref={inputRef}
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              historyIndex.current = history.current.length;
+            }}
+            onKeyDown={handleKeyDown}
+            disabled={!ready}
+            rows={Math.max(1, input.split("\n").length)}
+            spellCheck={false}
+            placeholder={ready ? "" : "Loading Python..."}
+            className="flex-1 resize-none bg-transparent font-mono text-xs text-gray-900 outline-none"
+          />
+        </div>
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
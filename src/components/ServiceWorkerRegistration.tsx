@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers /sw.js, which caches the Pyodide runtime and wheels for offline use. */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    if (process.env.NODE_ENV !== "production") return;
+
+    navigator.serviceWorker.register("/sw.js").catch((e) => {
+      console.warn("Service worker registration failed:", e);
+    });
+  }, []);
+
+  return null;
+}
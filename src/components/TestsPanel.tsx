@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslationSettings } from "@/hooks/useTranslationSettings";
+import {
+  GOLD_TESTS_PATH,
+  diffWords,
+  parseGoldSuite,
+  runRenderCases,
+  runTranslationCases,
+  type GoldCaseResult,
+  type GoldSuite,
+} from "@/lib/gold-tests";
+import type {
+  RenderResult,
+  TranslateResult,
+  ValidationResult,
+} from "@/lib/pyodide/manager";
+
+interface TestsPanelProps {
+  validationResult: ValidationResult | null;
+  /** Contents of tests/gold.yaml, if the repo has one */
+  goldFile: string | undefined;
+  onRender: (params: {
+    sentenceType: string;
+    data: Record<string, unknown>;
+  }) => Promise<RenderResult>;
+  onTranslate: (params: {
+    english: string;
+    provider: string;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string;
+  }) => Promise<TranslateResult>;
+}
+
+const EXAMPLE_FILE = `render:
+  - sentence_type: SubjectVerbSentence
+    input:
+      subject: { person: first, plurality: singular }
+      verb: sleep
+    expected: nüü üwi
+translate:
+  - english: I sleep.
+    expected: nüü üwi`;
+
+function DiffView({ expected, actual }: { expected: string; actual: string }) {
+  return (
+    <span className="font-mono whitespace-pre-wrap">
+      {diffWords(expected, actual).map((part, i) => (
+        <span
+          key={i}
+          className={
+            part.type === "removed"
+              ? "bg-red-100 text-red-800 line-through"
+              : part.type === "added"
+                ? "bg-green-100 text-green-800"
+                : "text-gray-700"
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function CaseRow({ result }: { result: GoldCaseResult }) {
+  return (
+    <li className="px-3 py-2">
+      <div className="flex items-baseline gap-2">
+        <span
+          className={`shrink-0 text-[10px] font-semibold uppercase ${
+            result.passed ? "text-green-600" : "text-red-600"
+          }`}
+        >
+          {result.passed ? "pass" : "fail"}
+        </span>
+        <span className="flex-1 min-w-0 text-xs text-gray-800 truncate">
+          {result.label}
+        </span>
+        <span className="shrink-0 text-[10px] text-gray-400">{result.kind}</span>
+      </div>
+      {!result.passed && (
+        <div className="mt-1 pl-9 space-y-0.5 text-xs">
+          <p>
+            <span className="text-gray-400">expected </span>
+            <span className="font-mono text-gray-700">{result.expected}</span>
+          </p>
+          {result.actual !== null ? (
+            <p>
+              <span className="text-gray-400">actual&nbsp;&nbsp;&nbsp;</span>
+              <DiffView expected={result.expected} actual={result.actual} />
+            </p>
+          ) : (
+            <p className="font-mono text-red-600 whitespace-pre-wrap">{result.error}</p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function TestsPanel({
+  validationResult,
+  goldFile,
+  onRender,
+  onTranslate,
+}: TestsPanelProps) {
+  const settings = useTranslationSettings();
+  const [results, setResults] = useState<GoldCaseResult[] | null>(null);
+  // Validation the results were produced against, to flag stale results
+  const [resultsFor, setResultsFor] = useState<ValidationResult | null>(null);
+  const [running, setRunning] = useState<"render" | "translate" | null>(null);
+
+  let suite: GoldSuite | null = null;
+  let parseError: string | null = null;
+  if (goldFile !== undefined) {
+    try {
+      suite = parseGoldSuite(goldFile);
+    } catch (e) {
+      parseError = e instanceof Error ? e.message : "Invalid test file";
+    }
+  }
+
+  const isValid = validationResult?.valid === true;
+  const stale = results !== null && resultsFor !== validationResult;
+
+  async function handleRunRender() {
+    if (!suite || !isValid) return;
+    setRunning("render");
+    try {
+      const rendered = await runRenderCases(suite.render, (sentenceType, data) =>
+        onRender({ sentenceType, data })
+      );
+      // Keep translation results from this validation, replace render results
+      const kept = (stale ? [] : results ?? []).filter((r) => r.kind === "translate");
+      setResults([...rendered, ...kept]);
+      setResultsFor(validationResult);
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  async function handleRunTranslate() {
+    if (!suite || !isValid) return;
+    setRunning("translate");
+    // Keep render results from this validation, replace translation results
+    const kept = (stale ? [] : results ?? []).filter((r) => r.kind === "render");
+    setResults(kept);
+    setResultsFor(validationResult);
+    try {
+      await runTranslationCases(
+        suite.translate,
+        (english) => onTranslate({ english, ...settings }),
+        (result) => setResults((prev) => [...(prev ?? []), result])
+      );
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  if (goldFile === undefined) {
+    return (
+      <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-2">
+        <h3 className="text-sm font-semibold text-gray-900">Tests</h3>
+        <p className="text-xs text-gray-500">
+          Add <span className="font-mono">{GOLD_TESTS_PATH}</span> to the repo with
+          structured inputs and the target strings they should render to, plus
+          English sentences and their expected translations:
+        </p>
+        <pre className="rounded bg-gray-50 p-2 text-xs text-gray-600 font-mono overflow-x-auto">
+          {EXAMPLE_FILE}
+        </pre>
+      </div>
+    );
+  }
+
+  const passed = results?.filter((r) => r.passed).length ?? 0;
+  const failed = results ? results.length - passed : 0;
+  const sorted = results ? [...results].sort((a, b) => Number(a.passed) - Number(b.passed)) : [];
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Tests</h3>
+        <span className="text-xs text-gray-400 font-mono">{GOLD_TESTS_PATH}</span>
+      </div>
+
+      {parseError && (
+        <div className="rounded-md bg-red-50 border border-red-200 p-2">
+          <p className="text-xs text-red-700 font-mono whitespace-pre-wrap">{parseError}</p>
+        </div>
+      )}
+
+      {!isValid && !parseError && (
+        <p className="text-xs text-gray-400">Save to validate before running tests.</p>
+      )}
+
+      {suite && (
+        <div className="flex gap-2">
+          <button
+            onClick={handleRunRender}
+            disabled={!isValid || running !== null || suite.render.length === 0}
+            className="flex-1 rounded-md bg-gray-900 px-3 py-1.5 text-xs text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running === "render"
+              ? "Running..."
+              : `Run ${suite.render.length} render case${suite.render.length !== 1 ? "s" : ""}`}
+          </button>
+          <button
+            onClick={handleRunTranslate}
+            disabled={!isValid || running !== null || suite.translate.length === 0}
+            title="Calls the translation pipeline once per case"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {running === "translate"
+              ? "Translating..."
+              : `Run ${suite.translate.length} translation case${suite.translate.length !== 1 ? "s" : ""}`}
+          </button>
+        </div>
+      )}
+
+      {results && results.length > 0 && (
+        <div>
+          <p className="text-xs mb-1">
+            <span className="text-green-700">{passed} passed</span>
+            {failed > 0 && <span className="text-red-600">, {failed} failed</span>}
+            {stale && (
+              <span className="text-amber-600"> — the package changed since this run</span>
+            )}
+          </p>
+          <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+            {sorted.map((result, i) => (
+              <CaseRow key={`${result.id}-${i}`} result={result} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 "use client";
 
 import { useState } from "react";
-import { useSettings } from "@/lib/store";
-import type { ValidationResult, TranslateResult } from "@/lib/pyodide/manager";
+import { useTranslationSettings } from "@/hooks/useTranslationSettings";
+import type {
+  ValidationResult,
+  TranslateResult,
+  RequestOptions,
+} from "@/lib/pyodide/manager";
+import BatchTranslatePanel from "./BatchTranslatePanel";
 
 interface TranslatePanelProps {
   validationResult: ValidationResult | null;
@@ -11,23 +16,29 @@ interface TranslatePanelProps {
     provider: string;
     model: string;
     apiKey?: string;
-  }) => Promise<TranslateResult>;
+    baseUrl?: string;
+  }, options?: RequestOptions) => Promise<TranslateResult>;
 }
 
 export default function TranslatePanel({
   validationResult,
   onTranslate,
 }: TranslatePanelProps) {
+  const [mode, setMode] = useState<"single" | "batch">("single");
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<TranslateResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const { anthropicKey, openaiKey, preferredProvider, preferredModel } =
-    useSettings();
+  const settings = useTranslationSettings();
 
   const isValid = validationResult?.valid === true;
 
+  // Translate with the provider and model from Account settings
+  function translateSentence(english: string, options?: RequestOptions) {
+    return onTranslate({ english, ...settings }, options);
+  }
+
   async function handleTranslate() {
     if (!input.trim() || !isValid) return;
 
@@ -35,16 +46,8 @@ export default function TranslatePanel({
     setError(null);
     setResult(null);
 
-    const apiKey =
-      preferredProvider === "openai" ? openaiKey : anthropicKey;
-
     try {
-      const res = await onTranslate({
-        english: input,
-        provider: preferredProvider,
-        model: preferredModel || (preferredProvider === "openai" ? "gpt-4o" : "claude-sonnet-4-5-20250929"),
-        apiKey: apiKey || undefined,
-      });
+      const res = await translateSentence(input);
 
       if (!res.ok) {
         setError(res.error || "Translation failed");
@@ -58,81 +61,107 @@ export default function TranslatePanel({
     }
   }
 
-  if (!isValid) {
-    return (
-      <div className="rounded-lg border border-gray-200 bg-white p-4">
-        <h3 className="text-sm font-semibold text-gray-900 mb-2">Translate</h3>
+  // One tree whether or not the package is valid: validation is cleared on
+  // every edit, and the batch panel must stay mounted to keep running
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">
+          Translate{validationResult?.name ? ` → ${validationResult.name}` : ""}
+        </h3>
+        {isValid && (
+          <div className="flex rounded-md border border-gray-200 text-xs">
+            {(["single", "batch"] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-0.5 first:rounded-l-md last:rounded-r-md ${
+                  mode === m ? "bg-gray-900 text-white" : "text-gray-600 hover:bg-gray-50"
+                }`}
+              >
+                {m === "single" ? "Single" : "Batch"}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!isValid && (
         <p className="text-xs text-gray-400">
           Save to validate before translating.
         </p>
-      </div>
-    );
-  }
+      )}
 
-  return (
-    <div className="rounded-lg border border-gray-200 bg-white p-4 space-y-3">
-      <h3 className="text-sm font-semibold text-gray-900">
-        Translate{validationResult?.name ? ` → ${validationResult.name}` : ""}
-      </h3>
-
-      <div>
-        <label className="block text-xs font-medium text-gray-500 mb-1">
-          English sentence
-        </label>
-        <input
-          type="text"
-          value={input}
-          onChange={(e) => setInput(e.target.value)}
-          onKeyDown={(e) => e.key === "Enter" && handleTranslate()}
-          placeholder="The dog is running."
-          className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-gray-500 focus:outline-none"
+      {/* Kept mounted so a running batch survives switching modes */}
+      <div className={isValid && mode === "batch" ? "" : "hidden"}>
+        <BatchTranslatePanel
+          onTranslate={translateSentence}
+          languageCode={validationResult?.language}
         />
       </div>
 
-      <button
-        onClick={handleTranslate}
-        disabled={loading || !input.trim()}
-        className="w-full rounded-md bg-gray-900 px-3 py-1.5 text-xs text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {loading ? "Translating..." : "Translate"}
-      </button>
-
-      {error && (
-        <div className="rounded-md bg-red-50 border border-red-200 p-2">
-          <p className="text-xs text-red-700">{error}</p>
-        </div>
-      )}
-
-      {result && (
-        <div className="space-y-2">
-          {/* Target translation */}
-          <div className="rounded-md bg-green-50 border border-green-200 p-2">
-            <p className="text-xs font-medium text-green-800 mb-1">
-              Translation
-            </p>
-            <p className="text-sm text-green-900">{result.target}</p>
+      {isValid && mode === "single" && (
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              English sentence
+            </label>
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleTranslate()}
+              placeholder="The dog is running."
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-gray-500 focus:outline-none"
+            />
           </div>
 
-          {/* Back-translation */}
-          {result.back_translation && (
-            <div className="rounded-md bg-blue-50 border border-blue-200 p-2">
-              <p className="text-xs font-medium text-blue-800 mb-1">
-                Back-translation
-              </p>
-              <p className="text-sm text-blue-900">{result.back_translation}</p>
+          <button
+            onClick={handleTranslate}
+            disabled={loading || !input.trim()}
+            className="w-full rounded-md bg-gray-900 px-3 py-1.5 text-xs text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Translating..." : "Translate"}
+          </button>
+
+          {error && (
+            <div className="rounded-md bg-red-50 border border-red-200 p-2">
+              <p className="text-xs text-red-700">{error}</p>
             </div>
           )}
 
-          {/* Structured data */}
-          {result.sentences && result.sentences.length > 0 && (
-            <details className="text-xs text-gray-400">
-              <summary className="cursor-pointer hover:text-gray-600">
-                Structured data ({result.sentence_types?.join(", ")})
-              </summary>
-              <pre className="mt-1 rounded bg-gray-50 p-2 text-xs text-gray-600 whitespace-pre-wrap font-mono overflow-x-auto">
-                {JSON.stringify(result.sentences, null, 2)}
-              </pre>
-            </details>
+          {result && (
+            <div className="space-y-2">
+              {/* Target translation */}
+              <div className="rounded-md bg-green-50 border border-green-200 p-2">
+                <p className="text-xs font-medium text-green-800 mb-1">
+                  Translation
+                </p>
+                <p className="text-sm text-green-900">{result.target}</p>
+              </div>
+
+              {/* Back-translation */}
+              {result.back_translation && (
+                <div className="rounded-md bg-blue-50 border border-blue-200 p-2">
+                  <p className="text-xs font-medium text-blue-800 mb-1">
+                    Back-translation
+                  </p>
+                  <p className="text-sm text-blue-900">{result.back_translation}</p>
+                </div>
+              )}
+
+              {/* Structured data */}
+              {result.sentences && result.sentences.length > 0 && (
+                <details className="text-xs text-gray-400">
+                  <summary className="cursor-pointer hover:text-gray-600">
+                    Structured data ({result.sentence_types?.join(", ")})
+                  </summary>
+                  <pre className="mt-1 rounded bg-gray-50 p-2 text-xs text-gray-600 whitespace-pre-wrap font-mono overflow-x-auto">
+                    {JSON.stringify(result.sentences, null, 2)}
+                  </pre>
+                </details>
+              )}
+            </div>
           )}
         </div>
       )}
@@ -1,16 +1,67 @@
 "use client";
 
-import type { ValidationResult } from "@/lib/pyodide/manager";
+import type { ValidationIssue, ValidationResult } from "@/lib/pyodide/manager";
 
 interface ValidationPanelProps {
   result: ValidationResult | null;
   loading: boolean;
+  /** Called when an issue with a file location is clicked */
+  onSelectIssue?: (issue: ValidationIssue) => void;
+}
+
+function IssueRow({
+  issue,
+  onSelect,
+}: {
+  issue: ValidationIssue;
+  onSelect?: (issue: ValidationIssue) => void;
+}) {
+  const location = issue.file
+    ? `${issue.file}${issue.line ? `:${issue.line}` : ""}`
+    : null;
+  const clickable = !!(location && onSelect);
+
+  return (
+    <li>
+      <button
+        type="button"
+        disabled={!clickable}
+        onClick={() => onSelect?.(issue)}
+        className={`w-full text-left rounded px-2 py-1.5 ${
+          clickable ? "hover:bg-white/60 cursor-pointer" : "cursor-default"
+        }`}
+      >
+        <div className="flex items-baseline gap-2">
+          <span
+            className={`shrink-0 text-[10px] font-semibold uppercase ${
+              issue.severity === "error" ? "text-red-600" : "text-amber-600"
+            }`}
+          >
+            {issue.severity}
+          </span>
+          <span className="flex-1 min-w-0 text-xs text-gray-800 font-mono whitespace-pre-wrap break-words">
+            {issue.message}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-x-2 mt-0.5 pl-12 text-[10px] text-gray-500">
+          <span className="font-mono">{issue.code}</span>
+          {issue.sentence_type && <span>{issue.sentence_type}</span>}
+          {location && <span className="font-mono">{location}</span>}
+        </div>
+      </button>
+    </li>
+  );
 }
 
 export default function ValidationPanel({
   result,
   loading,
+  onSelectIssue,
 }: ValidationPanelProps) {
+  const issues = result?.issues ?? [];
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+
   return (
     <div className="rounded-lg border border-gray-200 bg-white p-4">
       <h3 className="text-sm font-semibold text-gray-900 mb-3">Validation</h3>
@@ -39,6 +90,17 @@ export default function ValidationPanel({
                 </p>
               )}
             </div>
+          ) : errors.length > 0 ? (
+            <div>
+              <p className="font-medium text-red-800">
+                Validation failed — {errors.length} error{errors.length !== 1 ? "s" : ""}
+              </p>
+              <ul className="mt-2 -mx-2 space-y-0.5">
+                {errors.map((issue, i) => (
+                  <IssueRow key={i} issue={issue} onSelect={onSelectIssue} />
+                ))}
+              </ul>
+            </div>
           ) : (
             <div>
               <p className="font-medium text-red-800">Validation failed</p>
@@ -50,6 +112,19 @@ export default function ValidationPanel({
         </div>
       )}
 
+      {result && !loading && warnings.length > 0 && (
+        <details className="mt-3 rounded-md border border-amber-200 bg-amber-50 text-sm">
+          <summary className="cursor-pointer select-none px-3 py-2 font-medium text-amber-800">
+            {warnings.length} warning{warnings.length !== 1 ? "s" : ""}
+          </summary>
+          <ul className="px-1 pb-2 space-y-0.5">
+            {warnings.map((issue, i) => (
+              <IssueRow key={i} issue={issue} onSelect={onSelectIssue} />
+            ))}
+          </ul>
+        </details>
+      )}
+
       {!result && !loading && (
         <p className="text-xs text-gray-400">
           Validation runs automatically on load and when you save.
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type {
+  BatchRenderOutcome,
+  SentenceSchema,
+  ValidationIssue,
+} from "@/lib/pyodide/manager";
+import {
+  generateInstances,
+  summarizeFuzz,
+  type FuzzGroup,
+  type FuzzReport,
+} from "@/lib/fuzz";
+import type { JsonSchema } from "@/lib/schema-utils";
+
+interface FuzzPanelProps {
+  schemas: Record<string, SentenceSchema>;
+  onRenderBatch: (
+    params: { sentenceType: string; items: Record<string, unknown>[] },
+    options?: { signal?: AbortSignal }
+  ) => Promise<BatchRenderOutcome[]>;
+  /** Jump to the file and line an exception came from */
+  onSelectIssue?: (issue: ValidationIssue) => void;
+}
+
+const COUNT_OPTIONS = [100, 200, 500];
+/** Instances per worker request, so progress updates and Stop is prompt */
+const CHUNK_SIZE = 50;
+
+function GroupRow({
+  group,
+  sentenceType,
+  onSelectIssue,
+}: {
+  group: FuzzGroup;
+  sentenceType: string;
+  onSelectIssue?: (issue: ValidationIssue) => void;
+}) {
+  const location = group.file ? `${group.file}${group.line ? `:${group.line}` : ""}` : null;
+
+  return (
+    <details className="px-3 py-2">
+      <summary className="cursor-pointer select-none text-xs">
+        <span className="font-semibold text-red-700">{group.title}</span>
+        <span className="text-gray-500"> — {group.count} instance{group.count !== 1 ? "s" : ""}</span>
+        {location && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              onSelectIssue?.({
+                code: "fuzz",
+                severity: "error",
+                message: group.samples[0]?.detail ?? group.title,
+                file: group.file,
+                line: group.line,
+                sentence_type: sentenceType,
+                error_type: group.title,
+              });
+            }}
+            className="ml-2 font-mono text-gray-500 hover:text-gray-800 hover:underline"
+          >
+            {location}
+          </button>
+        )}
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {group.samples.map((sample, i) => (
+          <li key={i} className="text-xs">
+            <p className="font-mono text-gray-800 whitespace-pre-wrap break-words">{sample.detail}</p>
+            <pre className="mt-1 rounded bg-gray-50 p-1.5 text-[10px] text-gray-600 font-mono whitespace-pre-wrap">
+              {JSON.stringify(sample.data, null, 2)}
+            </pre>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+export default function FuzzPanel({
+  schemas,
+  onRenderBatch,
+  onSelectIssue,
+}: FuzzPanelProps) {
+  const [count, setCount] = useState(200);
+  const [reports, setReports] = useState<FuzzReport[]>([]);
+  const [progress, setProgress] = useState<{ type: string; done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function handleRun() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReports([]);
+    setError(null);
+
+    try {
+      for (const [typeName, info] of Object.entries(schemas)) {
+        const schema = info.json_schema as JsonSchema;
+        const items = generateInstances(schema, count);
+        const outcomes: BatchRenderOutcome[] = [];
+        setProgress({ type: typeName, done: 0, total: items.length });
+
+        for (let start = 0; start < items.length; start += CHUNK_SIZE) {
+          const chunk = items.slice(start, start + CHUNK_SIZE);
+          outcomes.push(
+            ...(await onRenderBatch(
+              { sentenceType: typeName, items: chunk },
+              { signal: controller.signal }
+            ))
+          );
+          setProgress({ type: typeName, done: outcomes.length, total: items.length });
+        }
+
+        setReports((prev) => [...prev, summarizeFuzz(typeName, items, outcomes)]);
+      }
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(e instanceof Error ? e.message : "Fuzzing failed");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  }
+
+  function handleStop() {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }
+
+  const running = progress !== null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          Instances per type
+          <select
+            value={count}
+            disabled={running}
+            onChange={(e) => setCount(Number(e.target.value))}
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs"
+          >
+            {COUNT_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        {running ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="rounded-md border border-gray-300 px-2.5 py-1 text-xs text-gray-700 hover:bg-gray-50"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleRun}
+            className="rounded-md bg-gray-900 px-2.5 py-1 text-xs text-white hover:bg-gray-700"
+          >
+            Fuzz all sentence types
+          </button>
+        )}
+        {progress && (
+          <span className="text-gray-400">
+            {progress.type}: {progress.done} / {progress.total}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {reports.map((report) => (
+        <div key={report.sentenceType} className="rounded-md border border-gray-200">
+          <div className="flex items-baseline justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+            <span className="text-xs font-semibold text-gray-800">{report.sentenceType}</span>
+            <span className="text-[10px] text-gray-500">
+              {report.generated} generated
+              {report.rejected > 0 && ` · ${report.rejected} rejected by validators`}
+            </span>
+          </div>
+          {report.groups.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-green-700">
+              No crashes, empty strings or placeholders found.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {report.groups.map((group, i) => (
+                <GroupRow
+                  key={i}
+                  group={group}
+                  sentenceType={report.sentenceType}
+                  onSelectIssue={onSelectIssue}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
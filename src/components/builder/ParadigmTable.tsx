@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RenderResult } from "@/lib/pyodide/manager";
+import { downloadText, toDelimited } from "@/lib/csv";
+import {
+  findEnumFields,
+  setAtPath,
+  type EnumField,
+  type JsonSchema,
+} from "@/lib/schema-utils";
+
+interface ParadigmTableProps {
+  sentenceType: string;
+  schema: JsonSchema;
+  /** Current form value; every field except the chosen axes is held fixed */
+  formData: Record<string, unknown>;
+  onRender: (
+    sentenceType: string,
+    data: Record<string, unknown>,
+    signal?: AbortSignal
+  ) => Promise<RenderResult>;
+}
+
+interface Cell {
+  rendered?: string;
+  error?: string;
+}
+
+interface Paradigm {
+  rows: EnumField;
+  cols: EnumField | null;
+  cells: (Cell | null)[][];
+  /** Form value and type the grid was generated from */
+  snapshot: string;
+}
+
+/** Renders are sequential in the worker; keep a runaway grid in check */
+const MAX_CELLS = 400;
+
+export default function ParadigmTable({
+  sentenceType,
+  schema,
+  formData,
+  onRender,
+}: ParadigmTableProps) {
+  const fields = findEnumFields(schema, schema, formData);
+  const [rowLabel, setRowLabel] = useState("");
+  const [colLabel, setColLabel] = useState("");
+  const [paradigm, setParadigm] = useState<Paradigm | null>(null);
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop rendering cells when the table goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const rowField = fields.find((f) => f.label === rowLabel) ?? fields[0] ?? null;
+  const colField =
+    fields.find((f) => f.label === colLabel && f.label !== rowField?.label) ?? null;
+  const cellCount = (rowField?.values.length ?? 0) * (colField?.values.length ?? 1);
+  const snapshot = JSON.stringify([sentenceType, formData]);
+  const stale = paradigm !== null && paradigm.snapshot !== snapshot;
+
+  async function handleGenerate() {
+    if (!rowField || cellCount > MAX_CELLS) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const rows = rowField;
+    const cols = colField;
+    const colValues: (string | null)[] = cols ? cols.values : [null];
+    setParadigm({
+      rows,
+      cols,
+      cells: rows.values.map(() => colValues.map(() => null)),
+      snapshot,
+    });
+    setRunning(true);
+
+    const setCell = (r: number, c: number, cell: Cell) =>
+      setParadigm((prev) =>
+        prev && {
+          ...prev,
+          cells: prev.cells.map((row, i) =>
+            i === r ? row.map((old, j) => (j === c ? cell : old)) : row
+          ),
+        }
+      );
+
+    try {
+      for (let r = 0; r < rows.values.length; r++) {
+        for (let c = 0; c < colValues.length; c++) {
+          let data = setAtPath(formData, rows.path, rows.values[r]);
+          if (cols) data = setAtPath(data, cols.path, colValues[c]);
+          try {
+            const result = await onRender(
+              sentenceType,
+              data as Record<string, unknown>,
+              controller.signal
+            );
+            setCell(
+              r,
+              c,
+              result.error !== undefined || result.rendered === undefined
+                ? { error: result.error ?? "Render failed" }
+                : { rendered: result.rendered }
+            );
+          } catch (e) {
+            if (controller.signal.aborted) return;
+            setCell(r, c, { error: e instanceof Error ? e.message : "Render failed" });
+          }
+        }
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+      }
+    }
+  }
+
+  function handleExport() {
+    if (!paradigm) return;
+    const { rows, cols, cells } = paradigm;
+    const cellText = (cell: Cell | null) =>
+      cell?.error !== undefined ? `ERROR: ${cell.error}` : (cell?.rendered ?? "");
+    const header = [
+      cols ? `${rows.label} \\ ${cols.label}` : rows.label,
+      ...(cols ? cols.values : [sentenceType]),
+    ];
+    const lines = [
+      header,
+      ...rows.values.map((value, r) => [value, ...cells[r].map(cellText)]),
+    ];
+    const name = [sentenceType, rows.label, cols?.label].filter(Boolean).join("-");
+    downloadText(`${name}.csv`, toDelimited(lines), "text/csv");
+  }
+
+  if (fields.length === 0) {
+    return (
+      <p className="text-xs text-gray-400">
+        This sentence type has no enum fields to build a paradigm from.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          Rows
+          <select
+            value={rowField?.label ?? ""}
+            onChange={(e) => setRowLabel(e.target.value)}
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs font-mono"
+          >
+            {fields.map((f) => (
+              <option key={f.label} value={f.label}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Columns
+          <select
+            value={colField?.label ?? ""}
+            onChange={(e) => setColLabel(e.target.value)}
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs font-mono"
+          >
+            <option value="">(none)</option>
+            {fields
+              .filter((f) => f.label !== rowField?.label)
+              .map((f) => (
+                <option key={f.label} value={f.label}>
+                  {f.label}
+                </option>
+              ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={running || cellCount > MAX_CELLS}
+          className="rounded-md bg-gray-900 px-2.5 py-1 text-xs text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {running ? "Rendering..." : paradigm ? "Regenerate" : "Generate"}
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!paradigm || running}
+          className="rounded-md border border-gray-200 px-2.5 py-1 text-xs text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export CSV
+        </button>
+        <span className="text-gray-400">
+          {cellCount > MAX_CELLS
+            ? `${cellCount} cells — pick smaller fields (max ${MAX_CELLS})`
+            : "Other fields are held at their current form values"}
+        </span>
+      </div>
+
+      {stale && (
+        <p className="text-xs text-amber-600">
+          The form changed since this table was generated.
+        </p>
+      )}
+
+      {paradigm && (
+        <div className="overflow-x-auto rounded-md border border-gray-200">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="px-2 py-1.5 font-mono font-medium">
+                  {paradigm.cols
+                    ? `${paradigm.rows.label} \\ ${paradigm.cols.label}`
+                    : paradigm.rows.label}
+                </th>
+                {(paradigm.cols ? paradigm.cols.values : [""]).map((value) => (
+                  <th key={value} className="px-2 py-1.5 font-mono font-medium">
+                    {value}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {paradigm.rows.values.map((value, r) => (
+                <tr key={value} className="align-top">
+                  <th className="px-2 py-1.5 text-left font-mono font-medium text-gray-500">
+                    {value}
+                  </th>
+                  {paradigm.cells[r].map((cell, c) => (
+                    <td key={c} className="px-2 py-1.5">
+                      {cell === null ? (
+                        <span className="text-gray-300">…</span>
+                      ) : cell.error !== undefined ? (
+                        <span className="font-mono text-red-600 whitespace-pre-wrap">
+                          {cell.error}
+                        </span>
+                      ) : (
+                        <span className="text-gray-900">{cell.rendered}</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
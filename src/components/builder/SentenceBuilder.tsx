@@ -2,7 +2,15 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import SchemaField from "./SchemaField";
-import type { ValidationResult } from "@/lib/pyodide/manager";
+import ParadigmTable from "./ParadigmTable";
+import FuzzPanel from "./FuzzPanel";
+import ValidationPanel from "@/components/ValidationPanel";
+import type {
+  BatchRenderOutcome,
+  RenderResult,
+  ValidationIssue,
+  ValidationResult,
+} from "@/lib/pyodide/manager";
 import {
   buildDefaultValue,
   type JsonSchema,
@@ -13,18 +21,29 @@ interface SentenceBuilderProps {
   validating: boolean;
   onRender: (
     sentenceType: string,
-    data: Record<string, unknown>
-  ) => Promise<string | null>;
+    data: Record<string, unknown>,
+    signal?: AbortSignal
+  ) => Promise<RenderResult>;
+  onRenderBatch: (
+    params: { sentenceType: string; items: Record<string, unknown>[] },
+    options?: { signal?: AbortSignal }
+  ) => Promise<BatchRenderOutcome[]>;
+  onSelectIssue?: (issue: ValidationIssue) => void;
 }
 
 export default function SentenceBuilder({
   validationResult,
   validating,
   onRender,
+  onRenderBatch,
+  onSelectIssue,
 }: SentenceBuilderProps) {
   const [activeType, setActiveType] = useState<string | null>(null);
   const [formData, setFormData] = useState<Record<string, unknown>>({});
   const [rendered, setRendered] = useState<string | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [showParadigm, setShowParadigm] = useState(false);
+  const [showFuzz, setShowFuzz] = useState(false);
   const [rendering, setRendering] = useState(false);
   const renderCounter = useRef(0);
 
@@ -44,6 +63,7 @@ export default function SentenceBuilder({
         (buildDefaultValue(jsonSchema, jsonSchema) as Record<string, unknown>) ?? {}
       );
       setRendered(null);
+      setRenderError(null);
     },
     [schemas]
   );
@@ -75,8 +95,10 @@ export default function SentenceBuilder({
     }
   }, [schemas, typeNames, activeType, switchType]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Debounced render
+  // Debounced render. A newer render cancels the previous one so stale
+  // requests don't pile up in the worker queue.
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
   useEffect(() => {
     if (!activeType || !validationResult?.valid) return;
 
@@ -84,16 +106,21 @@ export default function SentenceBuilder({
 
     debounceRef.current = setTimeout(async () => {
       const counter = ++renderCounter.current;
+      renderAbortRef.current?.abort();
+      const controller = new AbortController();
+      renderAbortRef.current = controller;
       setRendering(true);
       try {
-        const result = await onRender(activeType, formData);
+        const result = await onRender(activeType, formData, controller.signal);
         // Only update if this is still the latest render call
         if (counter === renderCounter.current) {
-          setRendered(result);
+          setRendered(result.rendered ?? null);
+          setRenderError(result.error ?? null);
         }
       } catch {
         if (counter === renderCounter.current) {
           setRendered(null);
+          setRenderError(null);
         }
       } finally {
         if (counter === renderCounter.current) {
@@ -127,6 +154,9 @@ export default function SentenceBuilder({
       ? schemas[activeType].examples.length > 0
       : false;
 
+  const warningCount =
+    validationResult?.issues?.filter((i) => i.severity === "warning").length ?? 0;
+
   // --- Guard states ---
 
   if (validating) {
@@ -152,13 +182,12 @@ export default function SentenceBuilder({
 
   if (!validationResult.valid) {
     return (
-      <div className="p-4">
-        <div className="rounded-md border border-red-200 bg-red-50 p-3">
-          <p className="text-sm font-medium text-red-800">Validation Failed</p>
-          <p className="text-xs text-red-600 mt-1 font-mono whitespace-pre-wrap">
-            {validationResult.error}
-          </p>
-        </div>
+      <div className="p-4 h-full overflow-y-auto">
+        <ValidationPanel
+          result={validationResult}
+          loading={false}
+          onSelectIssue={onSelectIssue}
+        />
       </div>
     );
   }
@@ -192,15 +221,39 @@ export default function SentenceBuilder({
               </button>
             ))}
           </div>
-          {hasExamples && (
+          <div className="flex gap-1">
             <button
               type="button"
-              onClick={loadExample}
-              className="rounded-md border border-gray-200 px-2.5 py-1 text-xs text-gray-500 hover:bg-gray-50 transition-colors"
+              onClick={() => setShowParadigm((v) => !v)}
+              className={`rounded-md border px-2.5 py-1 text-xs transition-colors ${
+                showParadigm
+                  ? "border-gray-900 bg-gray-900 text-white"
+                  : "border-gray-200 text-gray-500 hover:bg-gray-50"
+              }`}
             >
-              Load Example
+              Paradigm
             </button>
-          )}
+            <button
+              type="button"
+              onClick={() => setShowFuzz((v) => !v)}
+              className={`rounded-md border px-2.5 py-1 text-xs transition-colors ${
+                showFuzz
+                  ? "border-gray-900 bg-gray-900 text-white"
+                  : "border-gray-200 text-gray-500 hover:bg-gray-50"
+              }`}
+            >
+              Fuzz
+            </button>
+            {hasExamples && (
+              <button
+                type="button"
+                onClick={loadExample}
+                className="rounded-md border border-gray-200 px-2.5 py-1 text-xs text-gray-500 hover:bg-gray-50 transition-colors"
+              >
+                Load Example
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -210,6 +263,8 @@ export default function SentenceBuilder({
           <p className="text-base font-medium text-gray-900">{rendered}</p>
         ) : rendering ? (
           <p className="text-sm text-gray-400 italic">Rendering...</p>
+        ) : renderError ? (
+          <p className="text-xs text-red-600 font-mono whitespace-pre-wrap">{renderError}</p>
         ) : (
           <p className="text-sm text-gray-400 italic">
             Fill in the fields below to build a sentence
@@ -219,6 +274,26 @@ export default function SentenceBuilder({
 
       {/* Form grid */}
       <div className="flex-1 min-h-0 overflow-y-auto p-4">
+        {showFuzz && schemas && (
+          <div className="mb-4 rounded-lg border border-gray-200 p-3">
+            <FuzzPanel
+              schemas={schemas}
+              onRenderBatch={onRenderBatch}
+              onSelectIssue={onSelectIssue}
+            />
+          </div>
+        )}
+        {showParadigm && (
+          <div className="mb-4 rounded-lg border border-gray-200 p-3">
+            <ParadigmTable
+              key={activeType}
+              sentenceType={activeType}
+              schema={activeSchema}
+              formData={formData}
+              onRender={onRender}
+            />
+          </div>
+        )}
         <div
           className="grid gap-4"
           style={{
@@ -256,6 +331,11 @@ export default function SentenceBuilder({
           <span className="text-green-600">&#10003;</span>{" "}
           {validationResult.name} ({validationResult.language}) &mdash;{" "}
           {typeNames.length} sentence type{typeNames.length !== 1 ? "s" : ""}
+          {warningCount > 0 && (
+            <span className="text-amber-600">
+              {" "}&middot; {warningCount} warning{warningCount !== 1 ? "s" : ""}
+            </span>
+          )}
         </p>
       </div>
     </div>
@@ -1,15 +1,60 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { PyodideManager, type ValidationResult, type TranslateResult, type RenderResult } from "@/lib/pyodide/manager";
+import type {
+  ConsoleLine,
+  ValidationResult,
+  TranslateResult,
+  RenderResult,
+  BatchRenderOutcome,
+  ReplResult,
+  BuildKind,
+  BuildResult,
+  RequestOptions,
+  ValidateOptions,
+  SourcePosition,
+  CompletionItem,
+  DefinitionLocation,
+  SignatureInfo,
+} from "@/lib/pyodide/manager";
+import { PyodidePool } from "@/lib/pyodide/pool";
+
+/** Output printed while handling one validate, render or translate request. */
+export interface ConsoleEntry {
+  id: number;
+  source: "validate" | "render" | "translate";
+  /** Sentence type or English input, to tell requests apart */
+  label?: string;
+  time: number;
+  lines: ConsoleLine[];
+}
+
+const MAX_CONSOLE_ENTRIES = 200;
 
 export function usePyodide() {
-  const managerRef = useRef<PyodideManager | null>(null);
+  const managerRef = useRef<PyodidePool | null>(null);
   const [ready, setReady] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const nextEntryId = useRef(1);
+
+  function logOutput(
+    source: ConsoleEntry["source"],
+    label: string | undefined,
+    lines: ConsoleLine[] | undefined
+  ) {
+    if (!lines || lines.length === 0) return;
+    const entry = { id: nextEntryId.current++, source, label, time: Date.now(), lines };
+    setConsoleEntries((prev) => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), entry]);
+  }
+
+  function clearConsole() {
+    setConsoleEntries([]);
+  }
 
   useEffect(() => {
-    const manager = new PyodideManager();
+    // Translation runs in its own worker so rendering stays responsive
+    const manager = new PyodidePool();
     managerRef.current = manager;
     manager.start();
 
@@ -29,35 +74,127 @@ export function usePyodide() {
   }, []);
 
   async function validate(
-    files: Record<string, string>
+    files: Record<string, string>,
+    options?: ValidateOptions
   ): Promise<ValidationResult> {
     if (!managerRef.current) {
       throw new Error("Pyodide not initialized");
     }
-    return managerRef.current.validate(files);
+    const result = await managerRef.current.validate(files, options);
+    logOutput("validate", undefined, result.output);
+    return result;
+  }
+
+  async function translate(
+    params: {
+      english: string;
+      provider: string;
+      model: string;
+      apiKey?: string;
+      baseUrl?: string;
+      /** Language code; defaults to the package's first language */
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<TranslateResult> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    const result = await managerRef.current.translate(params, options);
+    logOutput("translate", params.english, result.output);
+    return result;
+  }
+
+  async function render(
+    params: {
+      sentenceType: string;
+      data: Record<string, unknown>;
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<RenderResult> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    const result = await managerRef.current.render(params, options);
+    logOutput("render", params.sentenceType, result.output);
+    return result;
+  }
+
+  async function renderBatch(
+    params: {
+      sentenceType: string;
+      items: Record<string, unknown>[];
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<BatchRenderOutcome[]> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    return managerRef.current.renderBatch(params, options);
+  }
+
+  async function repl(
+    params: { source: string; language?: string },
+    options?: RequestOptions
+  ): Promise<ReplResult> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    return managerRef.current.repl(params, options);
+  }
+
+  async function build(kind: BuildKind, options?: RequestOptions): Promise<BuildResult> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    return managerRef.current.build(kind, options);
+  }
+
+  async function complete(
+    position: SourcePosition,
+    options?: RequestOptions
+  ): Promise<CompletionItem[]> {
+    if (!managerRef.current) {
+      throw new Error("Pyodide not initialized");
+    }
+    return managerRef.current.complete(position, options);
   }
 
-  async function translate(params: {
-    english: string;
-    provider: string;
-    model: string;
-    apiKey?: string;
-  }): Promise<TranslateResult> {
+  async function definition(
+    position: SourcePosition,
+    options?: RequestOptions
+  ): Promise<DefinitionLocation[]> {
     if (!managerRef.current) {
       throw new Error("Pyodide not initialized");
     }
-    return managerRef.current.translate(params);
+    return managerRef.current.definition(position, options);
   }
 
-  async function render(params: {
-    sentenceType: string;
-    data: Record<string, unknown>;
-  }): Promise<RenderResult> {
+  async function signatures(
+    position: SourcePosition,
+    options?: RequestOptions
+  ): Promise<SignatureInfo[]> {
     if (!managerRef.current) {
       throw new Error("Pyodide not initialized");
     }
-    return managerRef.current.render(params);
+    return managerRef.current.signatures(position, options);
   }
 
-  return { ready, loading, validate, translate, render };
+  return {
+    ready,
+    loading,
+    validate,
+    translate,
+    render,
+    renderBatch,
+    repl,
+    build,
+    complete,
+    definition,
+    signatures,
+    consoleEntries,
+    clearConsole,
+  };
 }
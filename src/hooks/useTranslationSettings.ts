@@ -0,0 +1,40 @@
+"use client";
+
+import { useSettings } from "@/lib/store";
+
+const DEFAULT_MODELS = {
+  anthropic: "claude-sonnet-4-5-20250929",
+  openai: "gpt-4o",
+};
+
+/**
+ * Provider, model and API key for the translation pipeline and the
+ * assistant, from Account settings. `baseUrl` is set for OpenAI-compatible
+ * servers, for the proxy to forward requests to.
+ */
+export function useTranslationSettings() {
+  const {
+    anthropicKey,
+    openaiKey,
+    compatibleKey,
+    compatibleBaseUrl,
+    compatibleModels,
+    preferredProvider,
+    preferredModel,
+  } = useSettings();
+
+  if (preferredProvider === "openai-compatible") {
+    return {
+      provider: preferredProvider,
+      model: preferredModel || compatibleModels[0] || "",
+      apiKey: compatibleKey || undefined,
+      baseUrl: compatibleBaseUrl.trim().replace(/\/+$/, ""),
+    };
+  }
+
+  return {
+    provider: preferredProvider,
+    model: preferredModel || DEFAULT_MODELS[preferredProvider],
+    apiKey: (preferredProvider === "openai" ? openaiKey : anthropicKey) || undefined,
+  };
+}
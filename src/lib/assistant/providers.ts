@@ -0,0 +1,161 @@
+/**
+ * Provider adapters for the assistant. Conversations, tool definitions and
+ * tool results are kept in Anthropic's Messages format; these translate them
+ * for OpenAI Chat Completions (and servers that mimic it, such as llama.cpp
+ * and Ollama), and pick the matching stream reader for the reply.
+ *
+ * Every provider goes through /api/llm/chat, which holds the server-side keys
+ * and forwards OpenAI-compatible requests to the user's base URL.
+ */
+
+import {
+  readAnthropicStream,
+  readOpenAIStream,
+  type StreamHandlers,
+  type StreamedMessage,
+} from "./stream";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/** Anthropic `{name, description, input_schema}` tools as OpenAI function tools. */
+export function toOpenAITools(tools: any[]): any[] {
+  return tools.map((tool) =>
+    tool.type === "function"
+      ? tool
+      : {
+          type: "function",
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+          },
+        }
+  );
+}
+
+function blockText(content: any): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .filter((b: any) => b.type === "text")
+    .map((b: any) => b.text)
+    .join("");
+}
+
+/**
+ * Anthropic messages as OpenAI chat messages. tool_use blocks become
+ * `tool_calls` on the assistant message and each tool_result its own `tool`
+ * message; thinking blocks are dropped.
+ */
+export function toOpenAIMessages(system: string | undefined, messages: any[]): any[] {
+  const out: any[] = system ? [{ role: "system", content: system }] : [];
+
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      out.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const toolCalls = message.content
+        .filter((b: any) => b.type === "tool_use")
+        .map((b: any) => ({
+          id: b.id,
+          type: "function",
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: "assistant",
+        content: blockText(message.content) || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results have to come straight after the assistant's tool calls,
+    // ahead of any text the user message also carries
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        out.push({ role: "tool", tool_call_id: block.tool_use_id, content: blockText(block.content) });
+      }
+    }
+    const text = blockText(message.content);
+    if (text) out.push({ role: "user", content: text });
+  }
+  return out;
+}
+
+export interface ProviderSettings {
+  provider: string;
+  model: string;
+  apiKey?: string;
+  /** OpenAI-compatible API root, e.g. http://localhost:8080/v1 */
+  baseUrl?: string;
+}
+
+/**
+ * The API root of a user's OpenAI-compatible server, normalized, or null
+ * unless it is a plain http(s) URL.
+ */
+export function parseBaseUrl(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password || url.search || url.hash) return null;
+  return url.href.replace(/\/+$/, "");
+}
+
+/** URL and fetch options for a chat request in Anthropic's format. */
+export function chatRequest(
+  settings: ProviderSettings,
+  body: { system?: string; messages: any[]; tools?: any[]; stream: boolean }
+): { url: string; init: RequestInit } {
+  if (settings.provider === "openai-compatible" && !settings.baseUrl) {
+    throw new Error("No base URL for the OpenAI-compatible server. Set one in Account settings.");
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey) headers["x-llm-api-key"] = settings.apiKey;
+  return {
+    url: "/api/llm/chat",
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        provider: settings.provider,
+        model: settings.model,
+        ...(settings.baseUrl ? { baseUrl: settings.baseUrl } : {}),
+        ...body,
+      }),
+    },
+  };
+}
+
+/** Error message from a failed chat request, whichever server sent it. */
+export async function chatErrorMessage(res: Response): Promise<string> {
+  const text = await res.text();
+  try {
+    const data = JSON.parse(text);
+    const error = data.error;
+    if (typeof error === "string") return error;
+    if (error?.message) return error.message;
+  } catch {
+    // Not JSON; fall through to the raw body
+  }
+  return text.slice(0, 200) || `API error ${res.status}`;
+}
+
+/** Read a streamed chat reply as an Anthropic-format message. */
+export function readProviderStream(
+  provider: string,
+  res: Response,
+  handlers?: StreamHandlers
+): Promise<StreamedMessage> {
+  return provider === "anthropic"
+    ? readAnthropicStream(res, handlers)
+    : readOpenAIStream(res, handlers);
+}
@@ -0,0 +1,184 @@
+/**
+ * Readers for the server-sent events that /api/llm/chat passes through from
+ * each provider. Both rebuild the assistant message in Anthropic's format
+ * (the non-streaming response), while reporting text and tool-use blocks as
+ * they arrive. The assistant keeps its whole conversation in that format; see
+ * providers.ts for the translation the other way.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export interface StreamHandlers {
+  /** A chunk of assistant text */
+  onText?: (delta: string) => void;
+  /** A tool_use block started; its input is still streaming */
+  onToolUseStart?: (block: { id: string; name: string }) => void;
+}
+
+/** The assistant message, shaped like a non-streaming response. */
+export interface StreamedMessage {
+  content: any[];
+  stop_reason: string | null;
+}
+
+/** Split an SSE body into parsed `data:` payloads, one per event. */
+async function* sseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      const data = raw
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      // OpenAI ends the stream with a non-JSON sentinel
+      if (data && data !== "[DONE]") yield JSON.parse(data);
+    }
+
+    if (done) return;
+  }
+}
+
+export async function readAnthropicStream(
+  res: Response,
+  handlers: StreamHandlers = {}
+): Promise<StreamedMessage> {
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  const content: any[] = [];
+  // Raw JSON of each tool_use input, by block index, parsed once the block ends
+  const partialInputs = new Map<number, string>();
+  let stopReason: string | null = null;
+  let stopped = false;
+
+  for await (const event of sseEvents(res.body)) {
+    switch (event.type) {
+      case "content_block_start": {
+        const block = { ...event.content_block };
+        content[event.index] = block;
+        if (block.type === "tool_use") {
+          partialInputs.set(event.index, "");
+          handlers.onToolUseStart?.({ id: block.id, name: block.name });
+        } else if (block.type === "text" && block.text) {
+          handlers.onText?.(block.text);
+        }
+        break;
+      }
+      case "content_block_delta": {
+        const block = content[event.index];
+        const delta = event.delta;
+        if (delta.type === "text_delta") {
+          block.text += delta.text;
+          handlers.onText?.(delta.text);
+        } else if (delta.type === "input_json_delta") {
+          partialInputs.set(event.index, (partialInputs.get(event.index) ?? "") + delta.partial_json);
+        } else if (delta.type === "thinking_delta") {
+          block.thinking += delta.thinking;
+        } else if (delta.type === "signature_delta") {
+          block.signature = delta.signature;
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const json = partialInputs.get(event.index);
+        if (json !== undefined) {
+          content[event.index].input = json ? JSON.parse(json) : {};
+          partialInputs.delete(event.index);
+        }
+        break;
+      }
+      case "message_delta":
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        break;
+      case "message_stop":
+        stopped = true;
+        break;
+      case "error":
+        throw new Error(event.error?.message || "Stream error");
+    }
+  }
+
+  if (!stopped) throw new Error("Response stream ended early");
+  return { content: content.filter(Boolean), stop_reason: stopReason };
+}
+
+/** OpenAI finish_reason values, as Anthropic stop_reason values. */
+const OPENAI_STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+};
+
+/** Chat Completions chunks from OpenAI or an OpenAI-compatible server. */
+export async function readOpenAIStream(
+  res: Response,
+  handlers: StreamHandlers = {}
+): Promise<StreamedMessage> {
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  let text = "";
+  // Tool calls by their index in the delta stream
+  const calls: { id: string; name: string; arguments: string }[] = [];
+  let finishReason: string | null = null;
+
+  for await (const chunk of sseEvents(res.body)) {
+    if (chunk.error) throw new Error(chunk.error.message || "Stream error");
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+
+    const delta = choice.delta ?? {};
+    if (delta.content) {
+      text += delta.content;
+      handlers.onText?.(delta.content);
+    }
+    for (const part of delta.tool_calls ?? []) {
+      const index = part.index ?? calls.length;
+      let call = calls[index];
+      if (!call) {
+        // Some local servers omit ids; tool results still need one to point at
+        call = calls[index] = { id: part.id || `call_${index}`, name: "", arguments: "" };
+      }
+      if (part.function?.name && !call.name) {
+        call.name = part.function.name;
+        handlers.onToolUseStart?.({ id: call.id, name: call.name });
+      }
+      call.arguments += part.function?.arguments ?? "";
+    }
+    finishReason = choice.finish_reason ?? finishReason;
+  }
+
+  if (!finishReason) throw new Error("Response stream ended early");
+
+  const content: any[] = text ? [{ type: "text", text }] : [];
+  if (finishReason === "length") {
+    // Cut off mid-reply: the last call's arguments are incomplete, and calls
+    // left without results would break the conversation, so keep the text only
+    return { content, stop_reason: "max_tokens" };
+  }
+  for (const call of calls.filter(Boolean)) {
+    let input: unknown;
+    try {
+      input = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      throw new Error(`Model sent invalid JSON arguments for ${call.name}`);
+    }
+    content.push({ type: "tool_use", id: call.id, name: call.name, input });
+  }
+
+  return {
+    content,
+    // Ollama and llama.cpp report "stop" even when they called tools
+    stop_reason: calls.length > 0 ? "tool_use" : OPENAI_STOP_REASONS[finishReason] ?? finishReason,
+  };
+}
@@ -13,7 +13,7 @@ interface SystemPromptContext {
   fileTree: TreeNode[];
   selectedFile: string | null;
   validationResult: ValidationResult | null;
-  activeTab?: "editor" | "builder" | "translate";
+  activeTab?: "editor" | "builder" | "translate" | "tests" | "console" | "repl";
 }
 
 function formatTree(nodes: TreeNode[], indent = ""): string {
@@ -38,11 +38,26 @@ export function buildSystemPrompt(ctx: SystemPromptContext): string {
       : `Invalid: ${ctx.validationResult.error}`
     : "Not yet validated";
 
+  // The validation result is scoped to the language selected in the header
+  const otherLanguages = (ctx.validationResult?.languages ?? []).filter(
+    (l) => l.code !== ctx.validationResult?.language
+  );
+  const languageNote = otherLanguages.length > 0
+    ? `\nThis repo declares several languages. The user has "${ctx.validationResult?.language}" selected; the builder, translation and \`run_examples\` use it. Others: ${otherLanguages.map((l) => `${l.name} (${l.code})`).join(", ")}.`
+    : "";
+
+  const issueList = (ctx.validationResult?.issues ?? [])
+    .map(
+      (i) =>
+        `  - [${i.severity}] ${i.code}${i.file ? ` (${i.file}${i.line ? `:${i.line}` : ""})` : ""}: ${i.message}`
+    )
+    .join("\n");
+
   const activeTab = ctx.activeTab ?? "builder";
 
   return `You are an expert assistant for building yaduha language packages. You help users create and refine structured language translation packages using the yaduha framework.
 
-The user sees this chat on the left side of their screen. On the right side they can switch between three tabs: **Editor** (file tree + code editor), **Builder** (interactive sentence builder), and **Translate** (English-to-target translation pipeline). They currently have the **${activeTab}** tab open.
+The user sees this chat on the left side of their screen. On the right side they can switch between six tabs: **Editor** (file tree + code editor), **Builder** (interactive sentence builder), **Translate** (English-to-target translation pipeline), **Tests** (the gold-standard cases in \`tests/gold.yaml\`), **Console** (\`print()\` output and warnings from the package), and **REPL** (an interactive Python prompt with \`language\` and the sentence types in scope). They currently have the **${activeTab}** tab open.
 
 When you write files, validation runs automatically and the builder/translate panels update. After making changes, tell the user to check the builder or translate tab to see results.
 
@@ -126,7 +141,7 @@ Use \`read_framework_file\` to look up source code:
 
 - **Repository**: ${ctx.owner}/${ctx.repo}
 - **Selected file**: ${ctx.selectedFile || "(none)"}
-- **Validation**: ${validationStatus}
+- **Validation**: ${validationStatus}${languageNote}${issueList ? `\n- **Validation issues**:\n${issueList}` : ""}
 - **Active tab**: ${activeTab}
 
 ### File Tree
@@ -136,8 +151,9 @@ ${treeSummary}\`\`\`
 ## Guidelines
 
 - When the user asks about their code, use \`read_file\` to look at it first.
-- When making changes, use \`write_file\` to update files directly.
+- When changing an existing file, use \`edit_file\` with small exact search/replace edits; its result shows the diff. Use \`write_file\` only to create a file or rewrite most of one. If an edit is rejected, re-read the file before retrying.
 - After making changes, use \`run_examples\` to verify all examples still render correctly.
+- If the repo has \`tests/gold.yaml\`, every \`write_file\` and \`edit_file\` result ends with a gold test report. Fix any REGRESSIONS before moving on; use \`run_gold_tests\` to re-check.
 - Refer to the yaduha-ovp example when users need implementation patterns.
 - Focus on making the package pass validation: correct \`__str__\`, valid \`get_examples\`, proper pyproject.toml entrypoint.
 - When the user reports that a sentence looks wrong in the builder, read the relevant code, understand the morphology rules, and fix the \`__str__\` method.
@@ -1,8 +1,11 @@
 /**
- * Tool definitions for the AI assistant (Anthropic format)
- * and execution logic that calls the GitHub API proxy.
+ * Tool definitions for the AI assistant (Anthropic format; see providers.ts
+ * for other providers) and execution logic that calls the GitHub API proxy.
  */
 
+import { GOLD_TESTS_PATH, type GoldCaseResult } from "@/lib/gold-tests";
+import { unifiedDiff } from "@/lib/diff";
+
 /** Decode Base64 string as UTF-8. */
 function decodeBase64Utf8(base64: string): string {
   const binary = atob(base64);
@@ -15,6 +18,19 @@ export interface ToolContext {
   repo: string;
   validationResult?: import("@/lib/pyodide/manager").ValidationResult | null;
   onRender?: (sentenceType: string, data: Record<string, unknown>) => Promise<string | null>;
+  /** Run the render cases in tests/gold.yaml against the current files,
+   *  validating them first if needed. Resolves to null when the repo has no
+   *  gold tests. */
+  onRunGoldTests?: () => Promise<GoldCaseResult[] | null>;
+  /** Whether each gold case passed on the session's last run, by case id */
+  goldBaseline?: Record<string, boolean>;
+  /** Called with each gold run's outcomes, the baseline for the next run */
+  onGoldResults?: (outcomes: Record<string, boolean>) => void;
+  /** Called with the new content after write_file or edit_file commits a file */
+  onFileWrite?: (path: string, content: string) => void;
+  /** Stops reads and example runs. Writes to GitHub always run to completion
+   *  so the repo and the editor stay in sync. */
+  signal?: AbortSignal;
 }
 
 // Anthropic tool definitions
@@ -73,6 +89,45 @@ export const TOOL_DEFINITIONS = [
       required: ["path", "content"],
     },
   },
+  {
+    name: "edit_file",
+    description:
+      "Change part of a file in the user's language project repository by exact search and replace, without resending the whole file. Each edit's old_text must match exactly one place in the current file, including whitespace and indentation; if any edit does not match exactly once, nothing is changed. Commits directly to the default branch and returns a unified diff. Prefer this over write_file for changes to existing files.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        path: {
+          type: "string",
+          description: "File path relative to repo root.",
+        },
+        edits: {
+          type: "array",
+          description:
+            "Replacements, all matched against the file as it is before this call. They must not overlap.",
+          items: {
+            type: "object",
+            properties: {
+              old_text: {
+                type: "string",
+                description:
+                  "Exact text to replace. Include enough surrounding lines to make it unique.",
+              },
+              new_text: {
+                type: "string",
+                description: "Replacement text. Empty to delete old_text.",
+              },
+            },
+            required: ["old_text", "new_text"],
+          },
+        },
+        message: {
+          type: "string",
+          description: "Commit message for this change.",
+        },
+      },
+      required: ["path", "edits"],
+    },
+  },
   {
     name: "read_framework_file",
     description:
@@ -104,24 +159,47 @@ export const TOOL_DEFINITIONS = [
       required: [],
     },
   },
+  {
+    name: "run_gold_tests",
+    description:
+      `Run the gold-standard render cases in ${GOLD_TESTS_PATH} (structured inputs with expected target strings) against the current files. Reports failures and regressions: cases that passed on the previous run and fail now. This also runs automatically after every write_file and edit_file.`,
+    input_schema: {
+      type: "object" as const,
+      properties: {},
+      required: [],
+    },
+  },
 ];
 
 export async function executeTool(
   name: string,
-  input: Record<string, string>,
+  input: Record<string, unknown>,
   context: ToolContext
 ): Promise<string> {
+  // Arguments are model output: anything not a string is treated as missing
+  const arg = (key: string) => (typeof input[key] === "string" ? (input[key] as string) : undefined);
+
   switch (name) {
     case "list_files":
-      return listFiles(context, input.path || "");
+      return listFiles(context, arg("path") ?? "");
     case "read_file":
-      return readFile(context, input.path);
-    case "write_file":
-      return writeFile(context, input.path, input.content, input.message);
+      return readFile(context, arg("path") ?? "");
+    case "write_file": {
+      const content = arg("content");
+      if (content === undefined) return "Error writing file: content must be a string.";
+      return writeFile(context, arg("path") ?? "", content, arg("message"));
+    }
+    case "edit_file":
+      if (!isEditHunks(input.edits)) {
+        return "Error editing file: edits must be a non-empty list of {old_text, new_text} strings. No changes were made.";
+      }
+      return editFile(context, arg("path") ?? "", input.edits, arg("message"));
     case "read_framework_file":
-      return readFrameworkFile(input.path, input.repo || "yaduha-2");
+      return readFrameworkFile(arg("path") ?? "", arg("repo") || "yaduha-2", context.signal);
     case "run_examples":
       return runExamples(context);
+    case "run_gold_tests":
+      return (await checkGoldTests(context)) ?? `No ${GOLD_TESTS_PATH} in this repository.`;
     default:
       return `Unknown tool: ${name}`;
   }
@@ -129,7 +207,7 @@ export async function executeTool(
 
 async function listFiles(ctx: ToolContext, path: string): Promise<string> {
   const url = `/api/github/repos/${ctx.owner}/${ctx.repo}/contents/${path}`;
-  const res = await fetch(url);
+  const res = await fetch(url, { signal: ctx.signal });
   if (!res.ok) return `Error listing files: ${res.status}`;
 
   const items = await res.json();
@@ -147,7 +225,7 @@ async function listFiles(ctx: ToolContext, path: string): Promise<string> {
 
 async function readFile(ctx: ToolContext, path: string): Promise<string> {
   const url = `/api/github/repos/${ctx.owner}/${ctx.repo}/contents/${path}`;
-  const res = await fetch(url);
+  const res = await fetch(url, { signal: ctx.signal });
   if (!res.ok) return `Error reading file: ${res.status}`;
 
   const data = await res.json();
@@ -175,6 +253,20 @@ async function writeFile(
     // File doesn't exist yet, that's fine
   }
 
+  const error = await putFile(ctx, path, content, message, sha);
+  if (error) return `Error writing file: ${error}`;
+  return `Successfully wrote ${path}`;
+}
+
+/** Commit a file to GitHub. Returns an error message, or null on success. */
+async function putFile(
+  ctx: ToolContext,
+  path: string,
+  content: string,
+  message: string | undefined,
+  sha: string | undefined
+): Promise<string | null> {
+  const url = `/api/github/repos/${ctx.owner}/${ctx.repo}/contents/${path}`;
   const res = await fetch(url, {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
@@ -187,10 +279,115 @@ async function writeFile(
 
   if (!res.ok) {
     const err = await res.json();
-    return `Error writing file: ${err.message || res.status}`;
+    return err.message || String(res.status);
   }
 
-  return `Successfully wrote ${path}`;
+  ctx.onFileWrite?.(path, content);
+  return null;
+}
+
+interface EditHunk {
+  old_text: string;
+  new_text: string;
+}
+
+function isEditHunks(value: unknown): value is EditHunk[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (edit) =>
+        typeof edit?.old_text === "string" && typeof edit?.new_text === "string"
+    )
+  );
+}
+
+/** Start offsets of every match of `needle`, overlapping ones included. */
+function findAll(haystack: string, needle: string): number[] {
+  const found: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+    found.push(i);
+  }
+  return found;
+}
+
+/**
+ * Apply search/replace hunks, each anchored in the original content. Returns
+ * the new content, or an error when any anchor is missing, ambiguous or
+ * overlaps another; in that case nothing is applied.
+ */
+function applyEdits(
+  path: string,
+  content: string,
+  edits: EditHunk[]
+): { content: string } | { error: string } {
+  // Match the file's line endings; models send \n
+  const crlf = content.includes("\r\n");
+  const eol = (text: string) => (crlf ? text.replace(/\r?\n/g, "\r\n") : text);
+
+  const spans: { start: number; end: number; text: string; n: number }[] = [];
+  for (const [i, edit] of edits.entries()) {
+    const n = i + 1;
+    if (edit.old_text === "") {
+      return { error: `edit ${n} has an empty old_text. Use write_file to create a file.` };
+    }
+    const oldText = eol(edit.old_text);
+    const matches = findAll(content, oldText);
+    if (matches.length === 0) {
+      return {
+        error: `edit ${n}: old_text not found in ${path}. Read the file again and copy the text exactly, including whitespace and indentation.`,
+      };
+    }
+    if (matches.length > 1) {
+      return {
+        error: `edit ${n}: old_text matches ${matches.length} places in ${path}. Include more surrounding lines so it matches exactly once.`,
+      };
+    }
+    spans.push({ start: matches[0], end: matches[0] + oldText.length, text: eol(edit.new_text), n });
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < spans.length; i++) {
+    if (spans[i].start < spans[i - 1].end) {
+      return { error: `edits ${spans[i - 1].n} and ${spans[i].n} overlap. Merge them into one edit.` };
+    }
+  }
+
+  let result = "";
+  let cursor = 0;
+  for (const span of spans) {
+    result += content.slice(cursor, span.start) + span.text;
+    cursor = span.end;
+  }
+  return { content: result + content.slice(cursor) };
+}
+
+async function editFile(
+  ctx: ToolContext,
+  path: string,
+  edits: EditHunk[],
+  message?: string
+): Promise<string> {
+  const url = `/api/github/repos/${ctx.owner}/${ctx.repo}/contents/${path}`;
+  const res = await fetch(url, { signal: ctx.signal });
+  if (res.status === 404) return `Error editing file: ${path} does not exist. Use write_file to create it.`;
+  if (!res.ok) return `Error editing file: ${res.status}`;
+
+  const data = await res.json();
+  if (typeof data.content !== "string") return `Error editing file: ${path} is not a file.`;
+  const before = decodeBase64Utf8(data.content);
+
+  const edited = applyEdits(path, before, edits);
+  if ("error" in edited) return `Error editing file: ${edited.error} No changes were made.`;
+
+  const diff = unifiedDiff(path, before, edited.content);
+  if (!diff) return `No changes: the edits leave ${path} as it was.`;
+
+  ctx.signal?.throwIfAborted();
+
+  const error = await putFile(ctx, path, edited.content, message, data.sha);
+  if (error) return `Error editing file: ${error}`;
+  return `Successfully edited ${path}\n\n${diff}`;
 }
 
 async function runExamples(ctx: ToolContext): Promise<string> {
@@ -210,6 +407,7 @@ async function runExamples(ctx: ToolContext): Promise<string> {
       continue;
     }
     for (const ex of schema.examples) {
+      ctx.signal?.throwIfAborted();
       const rendered = await ctx.onRender(typeName, ex.structured as Record<string, unknown>);
       const match = rendered === ex.target;
       lines.push(`  English:  ${ex.english}`);
@@ -222,9 +420,76 @@ async function runExamples(ctx: ToolContext): Promise<string> {
   return lines.join("\n");
 }
 
-async function readFrameworkFile(path: string, repo: string): Promise<string> {
+function goldOutcomes(results: GoldCaseResult[]): Record<string, boolean> {
+  return Object.fromEntries(results.map((r) => [r.id, r.passed]));
+}
+
+/**
+ * Gold outcomes for the files as they are now, to seed a session's baseline.
+ * Null when there are no gold tests or they can't run, e.g. while the package
+ * is invalid.
+ */
+export async function takeGoldBaseline(ctx: ToolContext): Promise<Record<string, boolean> | null> {
+  try {
+    const results = await ctx.onRunGoldTests?.();
+    return results ? goldOutcomes(results) : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeFailure(r: GoldCaseResult): string {
+  return r.actual !== null
+    ? `  - ${r.label}: expected "${r.expected}", got "${r.actual}"`
+    : `  - ${r.label}: expected "${r.expected}", ${r.error}`;
+}
+
+/**
+ * Run the gold render cases and summarize them against the session's
+ * baseline, then hand their outcomes back as the new one. Returns null when
+ * the repo has no gold tests.
+ */
+export async function checkGoldTests(ctx: ToolContext): Promise<string | null> {
+  if (!ctx.onRunGoldTests) return null;
+
+  let results: GoldCaseResult[] | null;
+  try {
+    results = await ctx.onRunGoldTests();
+  } catch (e) {
+    return `Gold tests not run: ${e instanceof Error ? e.message : "failed"}`;
+  }
+  if (!results) return null;
+
+  const baseline = ctx.goldBaseline;
+  ctx.onGoldResults?.(goldOutcomes(results));
+
+  const passed = results.filter((r) => r.passed).length;
+  const lines = [`Gold tests (${GOLD_TESTS_PATH}): ${passed}/${results.length} render cases pass.`];
+
+  const failing = results.filter((r) => !r.passed);
+  const regressions = failing.filter((r) => baseline?.[r.id] === true);
+  const stillFailing = failing.filter((r) => baseline?.[r.id] !== true);
+  const fixed = results.filter((r) => r.passed && baseline?.[r.id] === false);
+
+  if (regressions.length > 0) {
+    lines.push("", "REGRESSIONS (passed before this change):", ...regressions.map(describeFailure));
+  }
+  if (stillFailing.length > 0) {
+    lines.push("", baseline ? "Still failing:" : "Failing:", ...stillFailing.map(describeFailure));
+  }
+  if (fixed.length > 0) {
+    lines.push("", "Fixed:", ...fixed.map((r) => `  - ${r.label}`));
+  }
+  return lines.join("\n");
+}
+
+async function readFrameworkFile(
+  path: string,
+  repo: string,
+  signal?: AbortSignal
+): Promise<string> {
   const url = `/api/github/repos/kubishi/${repo}/contents/${path}`;
-  const res = await fetch(url);
+  const res = await fetch(url, { signal });
   if (!res.ok) return `Error reading framework file: ${res.status}`;
 
   const data = await res.json();
@@ -0,0 +1,81 @@
+/**
+ * Minimal CSV/TSV reading and writing for corpus import and result export.
+ * Handles quoted fields with embedded delimiters, quotes and newlines.
+ */
+
+export type Delimiter = "," | "\t";
+
+/** Tab if the file name or first line says so, else comma. */
+export function detectDelimiter(text: string, fileName?: string): Delimiter {
+  if (fileName?.toLowerCase().endsWith(".tsv")) return "\t";
+  if (fileName?.toLowerCase().endsWith(".csv")) return ",";
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return firstLine.includes("\t") ? "\t" : ",";
+}
+
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function quoteField(value: string, delimiter: Delimiter): string {
+  if (/["\r\n]/.test(value) || value.includes(delimiter)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function toDelimited(rows: string[][], delimiter: Delimiter = ","): string {
+  return rows
+    .map((row) => row.map((cell) => quoteField(cell, delimiter)).join(delimiter))
+    .join("\r\n");
+}
+
+/** Save text as a file through a temporary object URL. */
+export function downloadText(fileName: string, text: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,138 @@
+/**
+ * Line diffs in unified format, for showing what a tool call changed.
+ * Myers' algorithm after trimming the common prefix and suffix, so small
+ * edits to large files stay cheap.
+ */
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+// Beyond this many changed lines the middle is shown as one replaced block
+const MAX_EDIT_DISTANCE = 1000;
+
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  // v[k] = furthest x on diagonal k; trace[d] is v before step d, for k in [-d-1, d+1]
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: "+", line: b[--y] });
+      else ops.push({ type: "-", line: a[--x] });
+    }
+  }
+  return ops.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle = myers(midA, midB) ?? [
+    ...midA.map((line) => ({ type: "-" as const, line })),
+    ...midB.map((line) => ({ type: "+" as const, line })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((line) => ({ type: " " as const, line })),
+    ...middle,
+    ...a.slice(endA).map((line) => ({ type: " " as const, line })),
+  ];
+}
+
+function splitLines(text: string): string[] {
+  // A trailing newline ends the last line rather than starting another
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/** Unified diff of two versions of a file; empty when their lines match. */
+export function unifiedDiff(path: string, before: string, after: string, context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.flatMap((op, i) => (op.type === " " ? [] : [i]));
+  if (changed.length === 0) return "";
+
+  // Line numbers in each version before every op
+  const oldNo: number[] = [];
+  const newNo: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldNo.push(oldLine);
+    newNo.push(newLine);
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  }
+
+  // Changes closer than two contexts apart share a hunk
+  const ranges: [number, number][] = [];
+  for (const i of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && i - last[1] <= 2 * context) last[1] = i;
+    else ranges.push([i, i]);
+  }
+
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+  for (const [first, lastChange] of ranges) {
+    const s = Math.max(0, first - context);
+    const e = Math.min(ops.length - 1, lastChange + context);
+    const hunk = ops.slice(s, e + 1);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    // An empty range is numbered from the line before it
+    const oldStart = oldCount > 0 ? oldNo[s] + 1 : oldNo[s];
+    const newStart = newCount > 0 ? newNo[s] + 1 : newNo[s];
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map((op) => op.type + op.line));
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,115 @@
+/**
+ * Random-instance fuzzing for sentence types: generate instances from the
+ * JSON schema, render them in the worker, and group what went wrong.
+ */
+
+import type { BatchRenderOutcome } from "@/lib/pyodide/manager";
+import { buildRandomValue, type JsonSchema } from "@/lib/schema-utils";
+
+/** Rendered text that suggests part of the template was never filled in. */
+const PLACEHOLDER_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\{[A-Za-z_][\w.]*\}/, reason: "Unreplaced {placeholder}" },
+  { pattern: /\bNone\b/, reason: "None in output" },
+  { pattern: /<[A-Za-z_][\w.]*: [^>]*>/, reason: "Enum repr in output" },
+  { pattern: /\b[A-Z][A-Za-z]*\.[a-z_][\w]*\b/, reason: "Enum member name in output" },
+];
+
+export interface FuzzSample {
+  data: Record<string, unknown>;
+  /** Rendered text or exception message */
+  detail: string;
+}
+
+export interface FuzzGroup {
+  kind: "exception" | "empty" | "placeholder";
+  /** e.g. "KeyError", "Empty string", "Unreplaced {placeholder}" */
+  title: string;
+  file?: string;
+  line?: number;
+  count: number;
+  /** First few failing instances */
+  samples: FuzzSample[];
+}
+
+export interface FuzzReport {
+  sentenceType: string;
+  /** Distinct instances generated */
+  generated: number;
+  /** Instances the model refused (e.g. field validators), not counted as failures */
+  rejected: number;
+  groups: FuzzGroup[];
+}
+
+const MAX_SAMPLES = 3;
+
+/** Up to `count` distinct random instances of a sentence type. */
+export function generateInstances(
+  schema: JsonSchema,
+  count: number,
+  random: () => number = Math.random
+): Record<string, unknown>[] {
+  const seen = new Set<string>();
+  const instances: Record<string, unknown>[] = [];
+  // Small schemas run out of distinct combinations; stop trying eventually
+  for (let attempt = 0; attempt < count * 5 && instances.length < count; attempt++) {
+    const value = buildRandomValue(schema, schema, random) as Record<string, unknown>;
+    const key = JSON.stringify(value);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    instances.push(value);
+  }
+  return instances;
+}
+
+/** Group failing outcomes by exception type and location, or by symptom. */
+export function summarizeFuzz(
+  sentenceType: string,
+  items: Record<string, unknown>[],
+  outcomes: BatchRenderOutcome[]
+): FuzzReport {
+  const groups = new Map<string, FuzzGroup>();
+  let rejected = 0;
+
+  const add = (key: string, group: Omit<FuzzGroup, "count" | "samples">, sample: FuzzSample) => {
+    let existing = groups.get(key);
+    if (!existing) {
+      existing = { ...group, count: 0, samples: [] };
+      groups.set(key, existing);
+    }
+    existing.count++;
+    if (existing.samples.length < MAX_SAMPLES) existing.samples.push(sample);
+  };
+
+  outcomes.forEach((outcome, i) => {
+    const data = items[i];
+    if (outcome.rejected !== undefined) {
+      rejected++;
+    } else if (outcome.error !== undefined) {
+      const title = outcome.error_type ?? "Error";
+      add(
+        `exception:${title}:${outcome.file ?? ""}:${outcome.line ?? ""}`,
+        { kind: "exception", title, file: outcome.file, line: outcome.line },
+        { data, detail: outcome.error }
+      );
+    } else {
+      const rendered = outcome.rendered ?? "";
+      if (!rendered.trim()) {
+        add("empty", { kind: "empty", title: "Empty string" }, { data, detail: JSON.stringify(rendered) });
+        return;
+      }
+      for (const { pattern, reason } of PLACEHOLDER_PATTERNS) {
+        if (pattern.test(rendered)) {
+          add(`placeholder:${reason}`, { kind: "placeholder", title: reason }, { data, detail: rendered });
+          break;
+        }
+      }
+    }
+  });
+
+  return {
+    sentenceType,
+    generated: items.length,
+    rejected,
+    groups: [...groups.values()].sort((a, b) => b.count - a.count),
+  };
+}
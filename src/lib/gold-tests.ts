@@ -0,0 +1,216 @@
+/**
+ * Gold-standard test suite for a language package, kept in the repo at
+ * tests/gold.yaml:
+ *
+ *   render:
+ *     - sentence_type: SubjectVerbSentence
+ *       input: { subject: { person: first }, verb: sleep }
+ *       expected: nüü üwi
+ *   translate:
+ *     - english: I sleep.
+ *       expected: nüü üwi
+ *
+ * Render cases are deterministic and run through the Pyodide render path.
+ * Translation cases call the LLM pipeline, so they only run on request.
+ */
+
+import { parse } from "yaml";
+import type { RenderResult, TranslateResult } from "@/lib/pyodide/manager";
+
+export const GOLD_TESTS_PATH = "tests/gold.yaml";
+
+export interface RenderCase {
+  name?: string;
+  sentence_type: string;
+  input: Record<string, unknown>;
+  expected: string;
+}
+
+export interface TranslationCase {
+  name?: string;
+  english: string;
+  expected: string;
+}
+
+export interface GoldSuite {
+  render: RenderCase[];
+  translate: TranslationCase[];
+}
+
+export interface GoldCaseResult {
+  /** Stable identity across runs, used to spot regressions */
+  id: string;
+  kind: "render" | "translate";
+  label: string;
+  expected: string;
+  actual: string | null;
+  error?: string;
+  passed: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function caseList(doc: Record<string, unknown>, key: string): Record<string, unknown>[] {
+  const value = doc[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`"${key}" must be a list`);
+  return value.map((item, i) => {
+    if (!isRecord(item)) throw new Error(`${key}[${i}] must be a mapping`);
+    return item;
+  });
+}
+
+function requireString(item: Record<string, unknown>, key: string, where: string): string {
+  const value = item[key];
+  // YAML reads bare numbers and booleans as such; targets are always text
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (typeof value !== "string") throw new Error(`${where}: "${key}" is required`);
+  return value;
+}
+
+/** Parse and check tests/gold.yaml. Throws with a readable message. */
+export function parseGoldSuite(text: string): GoldSuite {
+  let doc: unknown;
+  try {
+    doc = parse(text);
+  } catch (e) {
+    throw new Error(`${GOLD_TESTS_PATH}: ${e instanceof Error ? e.message : "invalid YAML"}`);
+  }
+  if (doc === null || doc === undefined) return { render: [], translate: [] };
+  if (!isRecord(doc)) {
+    throw new Error(`${GOLD_TESTS_PATH}: expected a mapping with "render" and/or "translate"`);
+  }
+
+  const render = caseList(doc, "render").map((item, i): RenderCase => {
+    const where = `render[${i}]`;
+    if (!isRecord(item.input)) throw new Error(`${where}: "input" must be a mapping`);
+    return {
+      name: typeof item.name === "string" ? item.name : undefined,
+      sentence_type: requireString(item, "sentence_type", where),
+      input: item.input,
+      expected: requireString(item, "expected", where),
+    };
+  });
+
+  const translate = caseList(doc, "translate").map((item, i): TranslationCase => {
+    const where = `translate[${i}]`;
+    return {
+      name: typeof item.name === "string" ? item.name : undefined,
+      english: requireString(item, "english", where),
+      expected: requireString(item, "expected", where),
+    };
+  });
+
+  return { render, translate };
+}
+
+function renderCaseId(c: RenderCase): string {
+  return `render:${c.name ?? `${c.sentence_type} ${JSON.stringify(c.input)}`}`;
+}
+
+export async function runRenderCases(
+  cases: RenderCase[],
+  render: (sentenceType: string, data: Record<string, unknown>) => Promise<RenderResult>
+): Promise<GoldCaseResult[]> {
+  const results: GoldCaseResult[] = [];
+  for (const c of cases) {
+    const base = {
+      id: renderCaseId(c),
+      kind: "render" as const,
+      label: c.name ?? c.sentence_type,
+      expected: c.expected,
+    };
+    try {
+      const res = await render(c.sentence_type, c.input);
+      if (res.error !== undefined || res.rendered === undefined) {
+        results.push({ ...base, actual: null, error: res.error ?? "Render failed", passed: false });
+      } else {
+        results.push({ ...base, actual: res.rendered, passed: res.rendered === c.expected });
+      }
+    } catch (e) {
+      results.push({
+        ...base,
+        actual: null,
+        error: e instanceof Error ? e.message : "Render failed",
+        passed: false,
+      });
+    }
+  }
+  return results;
+}
+
+export async function runTranslationCases(
+  cases: TranslationCase[],
+  translate: (english: string) => Promise<TranslateResult>,
+  onResult?: (result: GoldCaseResult) => void
+): Promise<GoldCaseResult[]> {
+  const results: GoldCaseResult[] = [];
+  for (const c of cases) {
+    const base = {
+      id: `translate:${c.name ?? c.english}`,
+      kind: "translate" as const,
+      label: c.name ?? c.english,
+      expected: c.expected,
+    };
+    let result: GoldCaseResult;
+    try {
+      const res = await translate(c.english);
+      result = res.ok
+        ? { ...base, actual: res.target ?? "", passed: res.target === c.expected }
+        : { ...base, actual: null, error: res.error ?? "Translation failed", passed: false };
+    } catch (e) {
+      result = {
+        ...base,
+        actual: null,
+        error: e instanceof Error ? e.message : "Translation failed",
+        passed: false,
+      };
+    }
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
+
+export interface DiffPart {
+  type: "same" | "removed" | "added";
+  text: string;
+}
+
+/** Word-level diff of expected vs actual (LCS over whitespace-separated tokens). */
+export function diffWords(expected: string, actual: string): DiffPart[] {
+  const a = expected.split(/(\s+)/);
+  const b = actual.split(/(\s+)/);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i++]);
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts.filter((p) => p.text !== "");
+}
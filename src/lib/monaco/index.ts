@@ -1,6 +1,7 @@
 import type { Monaco } from "@monaco-editor/react";
 import { createYaduhaHoverProvider } from "./yaduha-hover";
 import { createYaduhaCompletionProvider } from "./yaduha-completions";
+import { registerPythonLanguageService } from "./python-language-service";
 
 let providersRegistered = false;
 
@@ -16,7 +17,13 @@ export function registerYaduhaProviders(monaco: Monaco): void {
     "python",
     createYaduhaCompletionProvider(monaco),
   );
+  registerPythonLanguageService(monaco);
 }
 
 export { updateValidationMarkers } from "./yaduha-diagnostics";
 export { applyYaduhaDecorations } from "./yaduha-highlight";
+export { setHoverValidationResult } from "./yaduha-hover";
+export {
+  setPythonLanguageService,
+  type PythonLanguageService,
+} from "./python-language-service";
@@ -0,0 +1,288 @@
+/**
+ * Hover docs for symbols defined by the loaded language package: sentence
+ * types, helper models, enum classes and values, and vocabulary lists.
+ * Built from the schemas, examples and vocabulary in the last ValidationResult.
+ */
+
+import type {
+  SentenceSchema,
+  ValidationResult,
+  VocabularyList,
+} from "@/lib/pyodide/manager";
+import { resolveSchema, type JsonSchema } from "@/lib/schema-utils";
+
+/** Enum values listed inline before eliding the rest */
+const MAX_ENUM_VALUES = 8;
+/** Places listed for an enum value or vocabulary list */
+const MAX_USAGES = 6;
+
+interface FieldSite {
+  /** Sentence type whose schema the field was found in */
+  sentenceType: string;
+  /** Model declaring the field (the sentence type or a helper model) */
+  owner: string;
+  field: string;
+  schema: JsonSchema;
+  root: JsonSchema;
+}
+
+function code(text: string): string {
+  return "`" + text.replace(/`/g, "'") + "`";
+}
+
+function pythonBlock(text: string): string {
+  return "```python\n" + text + "\n```";
+}
+
+function listValues(values: string[]): string {
+  const shown = values.slice(0, MAX_ENUM_VALUES).map((v) => JSON.stringify(v));
+  const rest = values.length - shown.length;
+  return shown.join(" | ") + (rest > 0 ? ` | … (${rest} more)` : "");
+}
+
+/** Short type description of a schema node, e.g. `Pronoun | None`. */
+function describeType(schema: JsonSchema, root: JsonSchema): string {
+  if (schema.$ref) return schema.$ref.split("/").pop() ?? "object";
+  if (schema.enum) return listValues(schema.enum);
+  if (schema.anyOf) {
+    return schema.anyOf
+      .map((s) => (s.type === "null" ? "None" : describeType(s, root)))
+      .join(" | ");
+  }
+  if (schema.type === "array" && schema.items) {
+    return `list[${describeType(schema.items as JsonSchema, root)}]`;
+  }
+  if (schema.type === "object" && schema.title) return schema.title;
+  return schema.type ?? "any";
+}
+
+/** Every field of the sentence type and of the models it references. */
+function fieldSites(info: SentenceSchema): FieldSite[] {
+  const root = info.json_schema as JsonSchema;
+  const models: [string, JsonSchema][] = [[info.name, root]];
+  for (const [name, def] of Object.entries(root.$defs ?? {})) {
+    if (def.properties) models.push([name, def]);
+  }
+  const sites: FieldSite[] = [];
+  for (const [owner, model] of models) {
+    for (const [field, schema] of Object.entries(model.properties ?? {})) {
+      sites.push({ sentenceType: info.name, owner, field, schema, root });
+    }
+  }
+  return sites;
+}
+
+/** Enum values a field accepts, including through refs, unions and lists. */
+function fieldEnumValues(schema: JsonSchema, root: JsonSchema): string[] {
+  const resolved = resolveSchema(schema, root);
+  const values: string[] = [...(resolved.enum ?? [])];
+  for (const option of resolved.anyOf ?? []) {
+    values.push(...fieldEnumValues(option, root));
+  }
+  if (resolved.items) {
+    values.push(...fieldEnumValues(resolved.items as JsonSchema, root));
+  }
+  return values;
+}
+
+/** Whether a field's schema points at the $defs entry `name`. */
+function refersTo(schema: JsonSchema, name: string): boolean {
+  if (schema.$ref === `#/$defs/${name}`) return true;
+  if (schema.anyOf?.some((s) => refersTo(s, name))) return true;
+  return !!schema.items && refersTo(schema.items as JsonSchema, name);
+}
+
+function fieldLines(model: JsonSchema, root: JsonSchema): string[] {
+  const required = new Set(model.required ?? []);
+  return Object.entries(model.properties ?? {}).map(([field, schema]) => {
+    const optional = required.has(field) ? "" : " *(optional)*";
+    const description = schema.description ? ` — ${schema.description}` : "";
+    return `- ${code(field)}: ${code(describeType(schema, root))}${optional}${description}`;
+  });
+}
+
+/** Whether `value` appears anywhere in an example's structured data. */
+function containsValue(data: unknown, value: string): boolean {
+  if (data === value) return true;
+  if (Array.isArray(data)) return data.some((d) => containsValue(d, value));
+  if (data && typeof data === "object") {
+    return Object.values(data).some((d) => containsValue(d, value));
+  }
+  return false;
+}
+
+function exampleSection(
+  info: SentenceSchema,
+  matches: (structured: Record<string, unknown>) => boolean = () => true,
+): string | null {
+  const example = info.examples.find((ex) => matches(ex.structured));
+  if (!example) return null;
+  return [
+    `**Example** (${code(info.name)})`,
+    "",
+    `> ${example.english}`,
+    "",
+    `→ ${code(example.target)}`,
+  ].join("\n");
+}
+
+function usageList(sites: FieldSite[]): string {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const site of sites) {
+    const label =
+      site.owner === site.sentenceType
+        ? `${site.owner}.${site.field}`
+        : `${site.owner}.${site.field} (in ${site.sentenceType})`;
+    if (seen.has(label)) continue;
+    seen.add(label);
+    lines.push(`- ${code(label)}`);
+  }
+  const shown = lines.slice(0, MAX_USAGES);
+  if (lines.length > shown.length) {
+    shown.push(`- … and ${lines.length - shown.length} more`);
+  }
+  return shown.join("\n");
+}
+
+function sentenceTypeHover(info: SentenceSchema): string[] {
+  const root = info.json_schema as JsonSchema;
+  const sections = [pythonBlock(`class ${info.name}(Sentence)`)];
+  if (root.description) sections.push(root.description);
+  const fields = fieldLines(root, root);
+  if (fields.length > 0) sections.push(`**Fields**\n\n${fields.join("\n")}`);
+  const example = exampleSection(info);
+  if (example) sections.push(example);
+  return sections;
+}
+
+function helperModelHover(
+  name: string,
+  def: JsonSchema,
+  root: JsonSchema,
+  usedBy: FieldSite[],
+  example: string | null,
+): string[] {
+  const sections = [pythonBlock(`class ${name}(BaseModel)`)];
+  if (def.description) sections.push(def.description);
+  const fields = fieldLines(def, root);
+  if (fields.length > 0) sections.push(`**Fields**\n\n${fields.join("\n")}`);
+  if (usedBy.length > 0) sections.push(`**Used by**\n\n${usageList(usedBy)}`);
+  if (example) sections.push(example);
+  return sections;
+}
+
+function enumClassHover(
+  name: string,
+  def: JsonSchema,
+  usedBy: FieldSite[],
+): string[] {
+  const sections = [pythonBlock(`class ${name}(Enum)`)];
+  if (def.description) sections.push(def.description);
+  sections.push(`**Values:** ${(def.enum ?? []).map(code).join(", ")}`);
+  if (usedBy.length > 0) sections.push(`**Used by**\n\n${usageList(usedBy)}`);
+  return sections;
+}
+
+function vocabularyHover(
+  list: VocabularyList,
+  schemas: SentenceSchema[],
+): string[] {
+  const where = list.file ? ` — ${list.file}${list.line ? `:${list.line}` : ""}` : "";
+  const sections = [
+    pythonBlock(`${list.name}: list[VocabEntry]`),
+    `Vocabulary list, ${list.entries.length} entries${where}`,
+  ];
+
+  const preview = list.entries
+    .slice(0, MAX_USAGES)
+    .map((e) => `- ${code(e.english)} → ${code(e.target)}`);
+  if (list.entries.length > preview.length) {
+    preview.push(`- … and ${list.entries.length - preview.length} more`);
+  }
+  sections.push(preview.join("\n"));
+
+  const lemmas = new Set(list.entries.map((e) => e.english));
+  const usedBy = schemas.flatMap(fieldSites).filter((site) =>
+    fieldEnumValues(site.schema, site.root).some((v) => lemmas.has(v)),
+  );
+  sections.push(
+    usedBy.length > 0
+      ? `**Offered by**\n\n${usageList(usedBy)}`
+      : "*Not offered by any sentence type field.*",
+  );
+  return sections;
+}
+
+function enumValueHover(
+  value: string,
+  usedBy: FieldSite[],
+  schemas: SentenceSchema[],
+  vocabulary: VocabularyList[],
+): string[] {
+  const sections = [pythonBlock(JSON.stringify(value))];
+
+  const translations = vocabulary.flatMap((list) =>
+    list.entries
+      .filter((e) => e.english === value)
+      .map((e) => `${code(e.target)} (${list.name})`),
+  );
+  if (translations.length > 0) {
+    sections.push(`**Target:** ${translations.join(", ")}`);
+  }
+
+  sections.push(`**Accepted by**\n\n${usageList(usedBy)}`);
+
+  for (const info of schemas) {
+    const example = exampleSection(info, (structured) =>
+      containsValue(structured, value),
+    );
+    if (example) {
+      sections.push(example);
+      break;
+    }
+  }
+  return sections;
+}
+
+/**
+ * Markdown sections describing `word` as a package symbol, or null when the
+ * loaded package doesn't define it.
+ */
+export function buildPackageHover(
+  word: string,
+  result: ValidationResult | null,
+): string[] | null {
+  if (!result?.schemas) return null;
+  const schemas = Object.values(result.schemas);
+  const vocabulary = result.vocabulary ?? [];
+
+  const sentenceType = result.schemas[word];
+  if (sentenceType) return sentenceTypeHover(sentenceType);
+
+  // Helper models and enum classes, as they appear in each schema's $defs
+  for (const info of schemas) {
+    const root = info.json_schema as JsonSchema;
+    const def = root.$defs?.[word];
+    if (!def) continue;
+    const usedBy = schemas
+      .flatMap(fieldSites)
+      .filter((site) => refersTo(site.schema, word));
+    if (def.enum) return enumClassHover(word, def, usedBy);
+    if (def.properties) {
+      return helperModelHover(word, def, root, usedBy, exampleSection(info));
+    }
+  }
+
+  const list = vocabulary.find((v) => v.name === word);
+  if (list) return vocabularyHover(list, schemas);
+
+  const usedBy = schemas
+    .flatMap(fieldSites)
+    .filter((site) => fieldEnumValues(site.schema, site.root).includes(word));
+  if (usedBy.length > 0) {
+    return enumValueHover(word, usedBy, schemas, vocabulary);
+  }
+
+  return null;
+}
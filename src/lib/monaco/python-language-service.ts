@@ -0,0 +1,274 @@
+/**
+ * Monaco providers backed by Jedi in the Pyodide worker: completions,
+ * go-to-definition and signature help for the package's own code.
+ *
+ * Providers are registered once per Monaco instance, so the editor hands
+ * them the current file and worker through setPythonLanguageService().
+ */
+
+import type {
+  CancellationToken,
+  IRange,
+  Position,
+  editor,
+  languages,
+} from "monaco-editor";
+import type {
+  CompletionItem,
+  DefinitionLocation,
+  RequestOptions,
+  SignatureInfo,
+  SourcePosition,
+} from "@/lib/pyodide/manager";
+
+type MonacoApi = typeof import("monaco-editor");
+
+/** The subset of usePyodide() the providers need. */
+export interface PythonLanguageService {
+  complete(position: SourcePosition, options?: RequestOptions): Promise<CompletionItem[]>;
+  definition(position: SourcePosition, options?: RequestOptions): Promise<DefinitionLocation[]>;
+  signatures(position: SourcePosition, options?: RequestOptions): Promise<SignatureInfo[]>;
+}
+
+export interface PythonLanguageServiceContext {
+  service: PythonLanguageService;
+  /** Repo-relative path of the file open in the editor */
+  filePath: string;
+  /** Contents of another repo file, for peeking at definitions */
+  getFileContent: (path: string) => string | undefined;
+  /** Open a repo file at a 1-based line and column */
+  onOpenFile: (path: string, line: number, column: number) => void;
+}
+
+/** Other repo files are exposed to Monaco as file:///repo/<path> models. */
+const REPO_URI_PREFIX = "/repo/";
+
+let context: PythonLanguageServiceContext | null = null;
+
+export function setPythonLanguageService(
+  next: PythonLanguageServiceContext | null,
+): void {
+  context = next;
+}
+
+/** Context for a request on `model`, if it is the open Python file. */
+function activeContext(model: editor.ITextModel) {
+  if (!context || !context.filePath.endsWith(".py")) return null;
+  if (model.uri.path.startsWith(REPO_URI_PREFIX)) return null;
+  return context;
+}
+
+function sourcePosition(
+  ctx: PythonLanguageServiceContext,
+  model: editor.ITextModel,
+  position: Position,
+): SourcePosition {
+  return {
+    path: ctx.filePath,
+    source: model.getValue(),
+    line: position.lineNumber,
+    column: position.column - 1,
+  };
+}
+
+function toSignal(token: CancellationToken): AbortSignal {
+  const controller = new AbortController();
+  if (token.isCancellationRequested) controller.abort();
+  token.onCancellationRequested(() => controller.abort());
+  return controller.signal;
+}
+
+function completionKind(
+  monaco: MonacoApi,
+  kind: string,
+): languages.CompletionItemKind {
+  const kinds = monaco.languages.CompletionItemKind;
+  switch (kind) {
+    case "module":
+      return kinds.Module;
+    case "class":
+      return kinds.Class;
+    case "function":
+      return kinds.Function;
+    case "param":
+      return kinds.Variable;
+    case "keyword":
+      return kinds.Keyword;
+    case "property":
+      return kinds.Property;
+    case "path":
+      return kinds.File;
+    case "statement":
+    case "instance":
+    default:
+      return kinds.Variable;
+  }
+}
+
+function createCompletionProvider(
+  monaco: MonacoApi,
+): languages.CompletionItemProvider {
+  return {
+    triggerCharacters: ["."],
+    async provideCompletionItems(model, position, _context, token) {
+      const ctx = activeContext(model);
+      if (!ctx) return { suggestions: [] };
+
+      const word = model.getWordUntilPosition(position);
+      const range: IRange = {
+        startLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endLineNumber: position.lineNumber,
+        endColumn: word.endColumn,
+      };
+
+      try {
+        const items = await ctx.service.complete(
+          sourcePosition(ctx, model, position),
+          { signal: toSignal(token) },
+        );
+        return {
+          suggestions: items.map((item, i) => ({
+            label: item.label,
+            kind: completionKind(monaco, item.kind),
+            detail: item.detail,
+            insertText: item.label,
+            // Keep Jedi's ordering ahead of Monaco's word-based suggestions
+            sortText: String(i).padStart(4, "0"),
+            range,
+          })),
+        };
+      } catch {
+        return { suggestions: [] };
+      }
+    },
+  };
+}
+
+/** Model for another repo file, created or refreshed from the file contents. */
+function repoModel(
+  monaco: MonacoApi,
+  ctx: PythonLanguageServiceContext,
+  file: string,
+): editor.ITextModel | null {
+  const content = ctx.getFileContent(file);
+  if (content === undefined) return null;
+  const uri = monaco.Uri.file(REPO_URI_PREFIX + file);
+  const existing = monaco.editor.getModel(uri);
+  if (existing) {
+    if (existing.getValue() !== content) existing.setValue(content);
+    return existing;
+  }
+  return monaco.editor.createModel(content, "python", uri);
+}
+
+function createDefinitionProvider(
+  monaco: MonacoApi,
+): languages.DefinitionProvider {
+  return {
+    async provideDefinition(model, position, token) {
+      const ctx = activeContext(model);
+      if (!ctx) return null;
+
+      let definitions: DefinitionLocation[];
+      try {
+        definitions = await ctx.service.definition(
+          sourcePosition(ctx, model, position),
+          { signal: toSignal(token) },
+        );
+      } catch {
+        return null;
+      }
+
+      const locations: languages.Location[] = [];
+      for (const def of definitions) {
+        const target =
+          def.file === ctx.filePath ? model : repoModel(monaco, ctx, def.file);
+        if (!target) continue;
+        const column = def.column + 1;
+        locations.push({
+          uri: target.uri,
+          range: {
+            startLineNumber: def.line,
+            startColumn: column,
+            endLineNumber: def.line,
+            endColumn: column + def.name.length,
+          },
+        });
+      }
+      return locations;
+    },
+  };
+}
+
+function createSignatureHelpProvider(): languages.SignatureHelpProvider {
+  return {
+    signatureHelpTriggerCharacters: ["(", ","],
+    signatureHelpRetriggerCharacters: [","],
+    async provideSignatureHelp(model, position, token) {
+      const ctx = activeContext(model);
+      if (!ctx) return null;
+
+      let signatures: SignatureInfo[];
+      try {
+        signatures = await ctx.service.signatures(
+          sourcePosition(ctx, model, position),
+          { signal: toSignal(token) },
+        );
+      } catch {
+        return null;
+      }
+      if (signatures.length === 0) return null;
+
+      return {
+        value: {
+          signatures: signatures.map((sig) => ({
+            label: sig.label,
+            documentation: sig.documentation
+              ? { value: "```\n" + sig.documentation + "\n```" }
+              : undefined,
+            parameters: sig.params.map((param) => ({ label: param })),
+          })),
+          activeSignature: 0,
+          activeParameter: signatures[0].active_param ?? 0,
+        },
+        dispose() {},
+      };
+    },
+  };
+}
+
+export function registerPythonLanguageService(monaco: MonacoApi): void {
+  monaco.languages.registerCompletionItemProvider(
+    "python",
+    createCompletionProvider(monaco),
+  );
+  monaco.languages.registerDefinitionProvider(
+    "python",
+    createDefinitionProvider(monaco),
+  );
+  monaco.languages.registerSignatureHelpProvider(
+    "python",
+    createSignatureHelpProvider(),
+  );
+
+  // Definitions in other files point at file:///repo/<path> models; open
+  // those in the editor instead of Monaco's own (absent) navigation.
+  monaco.editor.registerEditorOpener({
+    openCodeEditor(_source, resource, selectionOrPosition) {
+      if (!context || !resource.path.startsWith(REPO_URI_PREFIX)) return false;
+      const file = resource.path.slice(REPO_URI_PREFIX.length);
+      let line = 1;
+      let column = 1;
+      if (selectionOrPosition && "startLineNumber" in selectionOrPosition) {
+        line = selectionOrPosition.startLineNumber;
+        column = selectionOrPosition.startColumn;
+      } else if (selectionOrPosition) {
+        line = selectionOrPosition.lineNumber;
+        column = selectionOrPosition.column;
+      }
+      context.onOpenFile(file, line, column);
+      return true;
+    },
+  });
+}
@@ -1,9 +1,9 @@
 /**
- * Maps ValidationResult errors into Monaco editor markers (squiggly underlines).
+ * Maps ValidationResult issues into Monaco editor markers (squiggly underlines).
  */
 
 import type { editor, MarkerSeverity as MarkerSeverityType } from "monaco-editor";
-import type { ValidationResult } from "@/lib/pyodide/manager";
+import type { ValidationIssue, ValidationResult } from "@/lib/pyodide/manager";
 
 /**
  * Parse a Python error/traceback string for file path and line number.
@@ -32,6 +32,45 @@ function parseErrorLocation(
   return bestMatch;
 }
 
+/**
+ * Markers for the structured issue list: every issue located in the current
+ * file, plus file-less issues (pinned to line 1).
+ */
+function markersFromIssues(
+  monaco: { MarkerSeverity: typeof MarkerSeverityType },
+  model: editor.ITextModel,
+  issues: ValidationIssue[],
+  currentFilePath: string | null,
+): editor.IMarkerData[] {
+  const markers: editor.IMarkerData[] = [];
+  for (const issue of issues) {
+    if (issue.file && issue.file !== currentFilePath) continue;
+    // File-less issues only make sense in Python files
+    if (!issue.file && !currentFilePath?.endsWith(".py")) continue;
+
+    const lineNumber = Math.min(
+      Math.max(issue.file ? issue.line ?? 1 : 1, 1),
+      model.getLineCount(),
+    );
+    markers.push({
+      severity:
+        issue.severity === "warning"
+          ? monaco.MarkerSeverity.Warning
+          : monaco.MarkerSeverity.Error,
+      message: issue.sentence_type
+        ? `${issue.message}\n[${issue.code}] ${issue.sentence_type}`
+        : `${issue.message}\n[${issue.code}]`,
+      source: "yaduha",
+      code: issue.code,
+      startLineNumber: lineNumber,
+      startColumn: model.getLineFirstNonWhitespaceColumn(lineNumber) || 1,
+      endLineNumber: lineNumber,
+      endColumn: model.getLineMaxColumn(lineNumber),
+    });
+  }
+  return markers;
+}
+
 export function updateValidationMarkers(
   monaco: {
     editor: typeof import("monaco-editor").editor;
@@ -44,8 +83,24 @@ export function updateValidationMarkers(
   const model = editorInstance.getModel();
   if (!model) return;
 
-  // Clear markers when there's no result or validation passed
-  if (!validationResult || validationResult.valid) {
+  // Clear markers when there's no result
+  if (!validationResult) {
+    monaco.editor.setModelMarkers(model, "yaduha", []);
+    return;
+  }
+
+  if (validationResult.issues) {
+    monaco.editor.setModelMarkers(
+      model,
+      "yaduha",
+      markersFromIssues(monaco, model, validationResult.issues, currentFilePath),
+    );
+    return;
+  }
+
+  // No structured issues (e.g. the worker itself failed): fall back to
+  // parsing the single error string
+  if (validationResult.valid) {
     monaco.editor.setModelMarkers(model, "yaduha", []);
     return;
   }
@@ -1,9 +1,12 @@
 /**
  * Monaco hover provider for Yaduha framework symbols.
- * Shows documentation when hovering over framework classes, methods, and patterns.
+ * Shows documentation when hovering over framework classes, methods, and patterns,
+ * and over symbols defined by the loaded package (see package-hover.ts).
  */
 
 import type { languages, editor, Position, IRange } from "monaco-editor";
+import type { ValidationResult } from "@/lib/pyodide/manager";
+import { buildPackageHover } from "./package-hover";
 
 const YADUHA_DOCS: Record<string, { signature: string; doc: string }> = {
   Sentence: {
@@ -50,6 +53,13 @@ const YADUHA_DOCS: Record<string, { signature: string; doc: string }> = {
   },
 };
 
+// Last validation result, for hovers over the package's own symbols
+let packageResult: ValidationResult | null = null;
+
+export function setHoverValidationResult(result: ValidationResult | null): void {
+  packageResult = result;
+}
+
 export function createYaduhaHoverProvider(): languages.HoverProvider {
   return {
     provideHover(
@@ -59,9 +69,6 @@ export function createYaduhaHoverProvider(): languages.HoverProvider {
       const wordInfo = model.getWordAtPosition(position);
       if (!wordInfo) return null;
 
-      const entry = YADUHA_DOCS[wordInfo.word];
-      if (!entry) return null;
-
       const range: IRange = {
         startLineNumber: position.lineNumber,
         startColumn: wordInfo.startColumn,
@@ -69,6 +76,13 @@ export function createYaduhaHoverProvider(): languages.HoverProvider {
         endColumn: wordInfo.endColumn,
       };
 
+      const entry = YADUHA_DOCS[wordInfo.word];
+      if (!entry) {
+        const sections = buildPackageHover(wordInfo.word, packageResult);
+        if (!sections) return null;
+        return { range, contents: sections.map((value) => ({ value })) };
+      }
+
       return {
         range,
         contents: [
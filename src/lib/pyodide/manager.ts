@@ -3,6 +3,12 @@
  * Returns Promises so callers can `await` validation results.
  */
 
+/** One line printed to stdout or stderr while the worker handled a request. */
+export interface ConsoleLine {
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
 export interface TranslateResult {
   ok: boolean;
   target?: string;
@@ -11,13 +17,86 @@ export interface TranslateResult {
   sentence_types?: string[];
   error?: string;
   error_type?: string;
+  output?: ConsoleLine[];
 }
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 type WorkerMessage =
   | { type: "ready" }
-  | { type: "result"; data: any }
-  | { type: "error"; message: string };
+  | { id: number; type: "location"; file: string; line: number }
+  | { id?: number; type: "result"; data: any }
+  | { id?: number; type: "error"; message: string };
+
+type RequestType =
+  | "validate"
+  | "render"
+  | "render_batch"
+  | "translate"
+  | "repl"
+  | "build"
+  | "complete"
+  | "definition"
+  | "signatures";
+
+/** Per-call controls for a worker request. */
+export interface RequestOptions {
+  /**
+   * Milliseconds to wait once the request reaches the worker, after which the
+   * worker is restarted (editor requests get a few seconds' grace first). 0
+   * disables the timeout.
+   */
+  timeoutMs?: number;
+  /** Aborting drops a queued request, or stops waiting on one already in flight. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Default timeouts per request type. Translation makes several LLM round trips;
+ * the first language-service request also has to load Jedi.
+ */
+const DEFAULT_TIMEOUTS: Record<RequestType, number> = {
+  validate: 60_000,
+  render: 10_000,
+  render_batch: 60_000,
+  translate: 300_000,
+  repl: 30_000,
+  build: 30_000,
+  complete: 30_000,
+  definition: 30_000,
+  signatures: 30_000,
+};
+
+/**
+ * Editor language-service requests. Jedi runs no package code, so one that
+ * times out is dropped and given a short grace period to finish before the
+ * worker is restarted, and a newer request of the same type supersedes any
+ * still queued.
+ */
+const EDITOR_TYPES = new Set<RequestType>(["complete", "definition", "signatures"]);
+// Past this, an abandoned editor request is holding up the queue: restart
+const EDITOR_STALL_MS = 5_000;
+
+export interface ValidateOptions extends RequestOptions {
+  /** Install this yaduha release instead of the one pyproject.toml asks for */
+  yaduhaVersion?: string;
+}
+
+interface PendingRequest {
+  id: number;
+  type: RequestType;
+  payload: Record<string, unknown>;
+  timeoutMs: number;
+  settled: boolean;
+  /** Last package file and line the worker reported running for this request */
+  location?: { file: string; line: number };
+  /** Internal reload of the last good files after a restart */
+  restore?: boolean;
+  /** Editor request that timed out and was abandoned, still running */
+  abandoned?: boolean;
+  cleanup?: () => void;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
 
 export interface SentenceExample {
   english: string;
@@ -34,31 +113,183 @@ export interface SentenceSchema {
 export interface RenderResult {
   rendered?: string;
   error?: string;
+  output?: ConsoleLine[];
+}
+
+/** Outcome of rendering one instance in a batch. */
+export interface BatchRenderOutcome {
+  rendered?: string;
+  /** Pydantic refused the data (e.g. a field validator), so nothing was rendered */
+  rejected?: string;
+  error?: string;
+  error_type?: string;
+  /** Innermost package frame of the exception, relative to the repo root */
+  file?: string;
+  line?: number;
+}
+
+/** How the REPL shows a value; models also get their JSON and str() render. */
+export interface ReplValue {
+  repr: string;
+  /** Set for Pydantic models */
+  type?: string;
+  json?: string;
+  rendered?: string;
+  render_error?: string;
+}
+
+export interface ReplResult {
+  /** Value of a trailing expression, unless it was None */
+  value?: ReplValue;
+  /** Formatted traceback */
+  error?: string;
+  output?: ConsoleLine[];
+}
+
+export type BuildKind = "wheel" | "sdist" | "zip";
+
+/** A built distribution, or why it could not be built. */
+export interface BuildResult {
+  file_name?: string;
+  /** File contents, base64-encoded */
+  data?: string;
+  error?: string;
+}
+
+/** Cursor position in a package file, for language-service requests. */
+export interface SourcePosition {
+  /** Path relative to the repo root */
+  path: string;
+  /** Current editor contents, which may be unsaved */
+  source: string;
+  /** 1-based */
+  line: number;
+  /** 0-based */
+  column: number;
+}
+
+export interface CompletionItem {
+  label: string;
+  /** Jedi type: "module", "class", "instance", "function", "param", "keyword", ... */
+  kind: string;
+  detail: string;
+  /** Text to insert after what has already been typed */
+  insert: string;
+}
+
+export interface DefinitionLocation {
+  /** Path relative to the repo root */
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 0-based */
+  column: number;
+  name: string;
+}
+
+export interface SignatureInfo {
+  label: string;
+  documentation: string;
+  params: string[];
+  active_param: number | null;
+}
+
+/** A module-level list or dict of VocabEntry in the package. */
+export interface VocabularyList {
+  name: string;
+  /** Path relative to the repo root */
+  file?: string;
+  line?: number;
+  entries: { english: string; target: string }[];
+}
+
+export type IssueSeverity = "error" | "warning";
+
+/** One problem found while validating a language package. */
+export interface ValidationIssue {
+  /** Machine-readable code, e.g. "missing-get-examples", "empty-render", "bad-enum" */
+  code: string;
+  severity: IssueSeverity;
+  message: string;
+  /** Path relative to the repo root */
+  file?: string;
+  line?: number;
+  sentence_type?: string;
+  /** Python exception class, when the issue came from an exception */
+  error_type?: string;
+  traceback?: string;
+}
+
+/** Where a validation spent its time; files are only rewritten when changed. */
+export interface ValidationTiming {
+  files_written: number;
+  files_removed: number;
+  /** Package modules dropped from sys.modules so they import fresh */
+  modules_reloaded: string[];
+  /** Diffing and writing files, evicting modules */
+  sync_ms: number;
+  /** Resolving yaduha, importing the package and running checks */
+  load_ms: number;
+  total_ms: number;
+}
+
+/** One language found in the repo; a repo may hold several related dialects. */
+export interface LanguageInfo {
+  code: string;
+  name: string;
+  sentence_types: string[];
+  schemas: Record<string, SentenceSchema>;
 }
 
 export interface ValidationResult {
   valid: boolean;
+  /** The first language found; see `languages` for the rest */
   language?: string;
   name?: string;
   sentence_types?: string[];
   schemas?: Record<string, SentenceSchema>;
+  /** Every language the loader and the yaduha.languages entry points found */
+  languages?: LanguageInfo[];
+  vocabulary?: VocabularyList[];
+  /** Every issue found; `valid` is false when any has severity "error" */
+  issues?: ValidationIssue[];
+  /** First error, kept for callers that only show one message */
   error?: string;
   error_type?: string;
+  /** yaduha version the package was validated against */
+  yaduha_version?: string;
+  /** yaduha specifier from pyproject.toml, e.g. ">=0.3" */
+  yaduha_requirement?: string;
+  /** Version pinned in the studio, overriding yaduha_requirement */
+  yaduha_override?: string;
+  /** print() output and warnings from loading and checking the package */
+  output?: ConsoleLine[];
+  timing?: ValidationTiming;
 }
 
+/**
+ * Owns one Pyodide worker. Requests are queued and sent one at a time, each
+ * tagged with an id so that late replies (from a cancelled request) are
+ * matched and discarded instead of resolving the wrong caller.
+ *
+ * Package code can loop forever, and a worker stuck in `runPython` never
+ * replies. When the active request outlives its timeout the worker is
+ * terminated and replaced, and the last file set that validated cleanly is
+ * loaded again before anything else queued runs.
+ */
 export class PyodideManager {
   private worker: Worker | null = null;
   private ready = false;
-  private readyPromise: Promise<void>;
-  private resolveReady!: () => void;
-  private pendingResolve: ((result: any) => void) | null = null;
-  private pendingReject: ((error: Error) => void) | null = null;
-
-  constructor() {
-    this.readyPromise = new Promise((resolve) => {
-      this.resolveReady = resolve;
-    });
-  }
+  private nextId = 1;
+  private queue: PendingRequest[] = [];
+  // Request the worker is currently busy with. It stays set until the worker
+  // replies, even if the caller already gave up on it.
+  private active: PendingRequest | null = null;
+  // Fires when the active request runs too long, whether or not anyone is
+  // still waiting on it
+  private watchdog: ReturnType<typeof setTimeout> | null = null;
+  // Payload of the last validation that came back valid
+  private lastGood: Record<string, unknown> | null = null;
 
   start() {
     if (this.worker) return;
@@ -74,78 +305,112 @@ export class PyodideManager {
       switch (msg.type) {
         case "ready":
           this.ready = true;
-          this.resolveReady();
+          this.pump();
           break;
 
-        case "result":
-          this.pendingResolve?.(msg.data);
-          this.pendingResolve = null;
-          this.pendingReject = null;
+        case "location":
+          if (this.active?.id === msg.id) {
+            this.active.location = { file: msg.file, line: msg.line };
+          }
           break;
 
-        case "error":
-          if (this.pendingReject) {
-            this.pendingReject(new Error(msg.message));
-            this.pendingResolve = null;
-            this.pendingReject = null;
+        case "result":
+        case "error": {
+          if (msg.id === undefined) {
+            // Worker-level failure (e.g. Pyodide failed to load)
+            if (msg.type === "error") this.failAll(new Error(msg.message));
+            break;
+          }
+          const req = this.active;
+          if (!req || req.id !== msg.id) break;
+          this.active = null;
+          this.clearWatchdog();
+          if (msg.type === "result") {
+            if (req.type === "validate" && msg.data?.valid) this.lastGood = req.payload;
+            this.settle(req, undefined, msg.data);
+          } else {
+            this.settle(req, new Error(msg.message));
           }
+          this.pump();
           break;
+        }
       }
     };
   }
 
-  async validate(files: Record<string, string>): Promise<ValidationResult> {
-    if (!this.worker) {
-      throw new Error("Worker not started. Call start() first.");
-    }
+  validate(
+    files: Record<string, string>,
+    options: ValidateOptions = {}
+  ): Promise<ValidationResult> {
+    const { yaduhaVersion, ...requestOptions } = options;
+    return this.request("validate", { files, yaduhaVersion }, requestOptions);
+  }
 
-    await this.readyPromise;
+  translate(
+    params: {
+      english: string;
+      provider: string;
+      model: string;
+      apiKey?: string;
+      /** OpenAI-compatible API root, for the proxy to forward to */
+      baseUrl?: string;
+      /** Language code; defaults to the package's first language */
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<TranslateResult> {
+    return this.request(
+      "translate",
+      { ...params, origin: window.location.origin },
+      options
+    );
+  }
 
-    return new Promise((resolve, reject) => {
-      this.pendingResolve = resolve;
-      this.pendingReject = reject;
-      this.worker!.postMessage({ type: "validate", files });
-    });
+  render(
+    params: {
+      sentenceType: string;
+      data: Record<string, unknown>;
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<RenderResult> {
+    return this.request("render", params, options);
   }
 
-  async translate(params: {
-    english: string;
-    provider: string;
-    model: string;
-    apiKey?: string;
-  }): Promise<TranslateResult> {
-    if (!this.worker) {
-      throw new Error("Worker not started. Call start() first.");
-    }
+  renderBatch(
+    params: {
+      sentenceType: string;
+      items: Record<string, unknown>[];
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<BatchRenderOutcome[]> {
+    return this.request("render_batch", params, options);
+  }
 
-    await this.readyPromise;
+  /** Run Python in the worker's REPL namespace. */
+  repl(
+    params: { source: string; language?: string },
+    options?: RequestOptions
+  ): Promise<ReplResult> {
+    return this.request("repl", params, options);
+  }
 
-    return new Promise((resolve, reject) => {
-      this.pendingResolve = resolve;
-      this.pendingReject = reject;
-      this.worker!.postMessage({
-        type: "translate",
-        ...params,
-        origin: window.location.origin,
-      });
-    });
+  /** Build a distribution of the last validated file set. */
+  build(kind: BuildKind, options?: RequestOptions): Promise<BuildResult> {
+    return this.request("build", { kind }, options);
   }
 
-  async render(params: {
-    sentenceType: string;
-    data: Record<string, unknown>;
-  }): Promise<RenderResult> {
-    if (!this.worker) {
-      throw new Error("Worker not started. Call start() first.");
-    }
+  complete(position: SourcePosition, options?: RequestOptions): Promise<CompletionItem[]> {
+    return this.request("complete", { ...position }, options);
+  }
 
-    await this.readyPromise;
+  definition(position: SourcePosition, options?: RequestOptions): Promise<DefinitionLocation[]> {
+    return this.request("definition", { ...position }, options);
+  }
 
-    return new Promise((resolve, reject) => {
-      this.pendingResolve = resolve;
-      this.pendingReject = reject;
-      this.worker!.postMessage({ type: "render", ...params });
-    });
+  signatures(position: SourcePosition, options?: RequestOptions): Promise<SignatureInfo[]> {
+    return this.request("signatures", { ...position }, options);
   }
 
   isReady() {
@@ -156,5 +421,136 @@ export class PyodideManager {
     this.worker?.terminate();
     this.worker = null;
     this.ready = false;
+    this.clearWatchdog();
+    this.failAll(new Error("Worker terminated"));
+  }
+
+  private request<T>(
+    type: RequestType,
+    payload: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    if (!this.worker) {
+      return Promise.reject(new Error("Worker not started. Call start() first."));
+    }
+
+    const { signal, timeoutMs = DEFAULT_TIMEOUTS[type] } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`${type} request cancelled`));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const req: PendingRequest = {
+        id: this.nextId++,
+        type,
+        payload,
+        timeoutMs,
+        settled: false,
+        resolve,
+        reject,
+      };
+
+      if (signal) {
+        const onAbort = () => this.cancel(req);
+        signal.addEventListener("abort", onAbort, { once: true });
+        req.cleanup = () => signal.removeEventListener("abort", onAbort);
+      }
+
+      if (EDITOR_TYPES.has(type)) {
+        for (const stale of this.queue.filter((r) => r.type === type)) this.cancel(stale);
+      }
+      this.queue.push(req);
+      this.pump();
+    });
+  }
+
+  /** Send the next queued request if the worker is idle. */
+  private pump() {
+    if (!this.worker || !this.ready || this.active) return;
+
+    const req = this.queue.shift();
+    if (!req) return;
+
+    this.active = req;
+    if (req.timeoutMs > 0) {
+      this.watchdog = setTimeout(() => this.timeOut(req), req.timeoutMs);
+    }
+    this.worker.postMessage({ ...req.payload, id: req.id, type: req.type });
+  }
+
+  /** Fail the stuck request and swap in a fresh worker. */
+  private timeOut(req: PendingRequest) {
+    this.watchdog = null;
+    if (EDITOR_TYPES.has(req.type) && !req.abandoned) {
+      req.abandoned = true;
+      this.settle(req, new Error(`${req.type} timed out after ${req.timeoutMs / 1000}s`));
+      this.watchdog = setTimeout(() => this.timeOut(req), EDITOR_STALL_MS);
+      return;
+    }
+    const where = req.location ? ` in ${req.location.file}:${req.location.line}` : "";
+    this.settle(
+      req,
+      new Error(`${req.type} timed out${where} after ${req.timeoutMs / 1000}s`)
+    );
+    // Don't keep replaying files that hang on load
+    if (req.restore) this.lastGood = null;
+    this.restart();
+  }
+
+  /**
+   * Replace the worker, keeping queued requests. The last good file set is
+   * loaded first so render and translate see the same package as before.
+   */
+  private restart() {
+    console.warn("[pyodide] restarting worker after timeout");
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = false;
+    this.active = null;
+
+    if (this.lastGood) {
+      this.queue.unshift({
+        id: this.nextId++,
+        type: "validate",
+        payload: this.lastGood,
+        timeoutMs: DEFAULT_TIMEOUTS.validate,
+        settled: false,
+        restore: true,
+        resolve: () => {},
+        reject: () => {},
+      });
+    }
+    this.start();
+  }
+
+  private clearWatchdog() {
+    if (this.watchdog) clearTimeout(this.watchdog);
+    this.watchdog = null;
+  }
+
+  private cancel(req: PendingRequest) {
+    // A queued request never reaches the worker; an in-flight one is only
+    // abandoned here and its reply dropped when it arrives. The watchdog
+    // still restarts the worker if it never does.
+    this.queue = this.queue.filter((r) => r !== req);
+    this.settle(req, new Error(`${req.type} request cancelled`));
+  }
+
+  private settle(req: PendingRequest, error?: Error, data?: unknown) {
+    if (req.settled) return;
+    req.settled = true;
+    req.cleanup?.();
+    if (error) {
+      req.reject(error);
+    } else {
+      req.resolve(data);
+    }
+  }
+
+  private failAll(error: Error) {
+    const pending = this.active ? [this.active, ...this.queue] : this.queue;
+    this.active = null;
+    this.queue = [];
+    for (const req of pending) this.settle(req, error);
   }
 }
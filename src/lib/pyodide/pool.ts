@@ -0,0 +1,184 @@
+/**
+ * Pool of Pyodide workers behind the same API as PyodideManager.
+ *
+ * `translate` runs synchronous XHR LLM calls that can hold a worker for tens
+ * of seconds, so it gets a dedicated worker. `validate` and `render` stay on
+ * the primary worker, which keeps the Sentence Builder responsive while a
+ * translation is in flight. Editor language features, the REPL and builds
+ * also use the primary worker, since it holds the files of the last
+ * validation.
+ */
+
+import {
+  PyodideManager,
+  type BatchRenderOutcome,
+  type BuildKind,
+  type BuildResult,
+  type CompletionItem,
+  type DefinitionLocation,
+  type RenderResult,
+  type ReplResult,
+  type RequestOptions,
+  type SignatureInfo,
+  type SourcePosition,
+  type TranslateResult,
+  type ValidateOptions,
+  type ValidationResult,
+} from "./manager";
+
+export class PyodidePool {
+  private primary = new PyodideManager();
+  private translator: PyodideManager | null = null;
+  // Latest file set sent to the primary worker
+  private files: Record<string, string> | null = null;
+  private yaduhaVersion: string | undefined;
+  // File set the translation worker has loaded (reference-compared)
+  private translatorFiles: Record<string, string> | null = null;
+  private translatorLoad: Promise<ValidationResult> | null = null;
+
+  start() {
+    this.primary.start();
+  }
+
+  isReady() {
+    return this.primary.isReady();
+  }
+
+  validate(
+    files: Record<string, string>,
+    options: ValidateOptions = {}
+  ): Promise<ValidationResult> {
+    this.files = files;
+    this.yaduhaVersion = options.yaduhaVersion;
+    return this.primary.validate(files, options);
+  }
+
+  render(
+    params: {
+      sentenceType: string;
+      data: Record<string, unknown>;
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<RenderResult> {
+    return this.primary.render(params, options);
+  }
+
+  renderBatch(
+    params: {
+      sentenceType: string;
+      items: Record<string, unknown>[];
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<BatchRenderOutcome[]> {
+    return this.primary.renderBatch(params, options);
+  }
+
+  repl(
+    params: { source: string; language?: string },
+    options?: RequestOptions
+  ): Promise<ReplResult> {
+    return this.primary.repl(params, options);
+  }
+
+  build(kind: BuildKind, options?: RequestOptions): Promise<BuildResult> {
+    return this.primary.build(kind, options);
+  }
+
+  complete(position: SourcePosition, options?: RequestOptions): Promise<CompletionItem[]> {
+    return this.primary.complete(position, options);
+  }
+
+  definition(position: SourcePosition, options?: RequestOptions): Promise<DefinitionLocation[]> {
+    return this.primary.definition(position, options);
+  }
+
+  signatures(position: SourcePosition, options?: RequestOptions): Promise<SignatureInfo[]> {
+    return this.primary.signatures(position, options);
+  }
+
+  async translate(
+    params: {
+      english: string;
+      provider: string;
+      model: string;
+      apiKey?: string;
+      baseUrl?: string;
+      /** Language code; defaults to the package's first language */
+      language?: string;
+    },
+    options?: RequestOptions
+  ): Promise<TranslateResult> {
+    const translator = this.getTranslator();
+
+    const loaded = await this.syncTranslator(translator, options?.signal);
+    if (!loaded.valid) {
+      return {
+        ok: false,
+        error: loaded.error ?? "Language package failed to load",
+        error_type: loaded.error_type,
+      };
+    }
+
+    return translator.translate(params, options);
+  }
+
+  terminate() {
+    this.primary.terminate();
+    this.translator?.terminate();
+    this.translator = null;
+    this.translatorFiles = null;
+    this.translatorLoad = null;
+  }
+
+  /** The translation worker is started on first use to avoid paying for a
+   *  second Pyodide runtime when nobody translates. */
+  private getTranslator(): PyodideManager {
+    if (!this.translator) {
+      this.translator = new PyodideManager();
+      this.translator.start();
+    }
+    return this.translator;
+  }
+
+  /** Load the primary worker's latest file set into the translation worker. */
+  private syncTranslator(
+    translator: PyodideManager,
+    signal?: AbortSignal
+  ): Promise<ValidationResult> {
+    if (!this.files) {
+      return Promise.resolve({
+        valid: false,
+        error: "No language package loaded. Save to validate first.",
+      });
+    }
+
+    if (this.translatorFiles !== this.files || !this.translatorLoad) {
+      const pending = translator.validate(this.files, {
+        yaduhaVersion: this.yaduhaVersion,
+      });
+      this.translatorFiles = this.files;
+      this.translatorLoad = pending;
+      // Don't cache a failed load (e.g. timed out)
+      pending.catch(() => {
+        if (this.translatorLoad !== pending) return;
+        this.translatorFiles = null;
+        this.translatorLoad = null;
+      });
+    }
+    const load = this.translatorLoad;
+
+    if (!signal) return load;
+
+    // Let the caller stop waiting without abandoning the shared load
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new Error("translate request cancelled"));
+      if (signal.aborted) return onAbort();
+      signal.addEventListener("abort", onAbort, { once: true });
+      load.then(resolve, reject).finally(() =>
+        signal.removeEventListener("abort", onAbort)
+      );
+    });
+  }
+}
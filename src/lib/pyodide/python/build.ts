@@ -0,0 +1,188 @@
+/**
+ * Python source for building distributions of the package at /repo, using
+ * only the standard library (no build backend runs in Pyodide):
+ *
+ *   wheel  py3-none-any wheel of the importable packages, with METADATA and
+ *          entry_points.txt generated from pyproject.toml
+ *   sdist  .tar.gz of the whole source tree plus PKG-INFO
+ *   zip    .zip of the whole source tree
+ *
+ * Same template literal rules as VALIDATION_PY.
+ */
+
+export const BUILD_PY = `
+import base64
+import hashlib
+import io
+import os
+import re
+import tarfile
+import time
+import tomllib
+import zipfile
+
+_BUILD_EXCLUDED_DIRS = {"__pycache__", ".git", "tests", "test", "docs"}
+
+
+def _build_project(repo_dir):
+    path = os.path.join(repo_dir, "pyproject.toml")
+    if not os.path.exists(path):
+        raise ValueError("pyproject.toml is missing")
+    with open(path, "rb") as f:
+        project = tomllib.load(f).get("project", {})
+    if not project.get("name"):
+        raise ValueError("pyproject.toml has no [project] name")
+    if not project.get("version"):
+        raise ValueError(
+            "pyproject.toml has no static [project] version; "
+            "a dynamic version can only be resolved by a real build backend"
+        )
+    return project
+
+
+def _build_metadata(repo_dir, project):
+    lines = [
+        "Metadata-Version: 2.1",
+        f"Name: {project['name']}",
+        f"Version: {project['version']}",
+    ]
+    if project.get("description"):
+        lines.append(f"Summary: {project['description']}")
+    if project.get("requires-python"):
+        lines.append(f"Requires-Python: {project['requires-python']}")
+    for dep in project.get("dependencies", []):
+        lines.append(f"Requires-Dist: {dep}")
+
+    readme = project.get("readme")
+    readme_file = readme if isinstance(readme, str) else (readme or {}).get("file")
+    body = ""
+    if readme_file and os.path.exists(os.path.join(repo_dir, readme_file)):
+        with open(os.path.join(repo_dir, readme_file), encoding="utf-8") as f:
+            body = f.read()
+        content_type = "text/markdown" if readme_file.endswith(".md") else "text/plain"
+        lines.append(f"Description-Content-Type: {content_type}")
+    return "\\n".join(lines) + "\\n\\n" + body
+
+
+def _build_entry_points(project):
+    groups = dict(project.get("entry-points", {}))
+    if project.get("scripts"):
+        groups["console_scripts"] = project["scripts"]
+    sections = []
+    for group, entries in groups.items():
+        sections.append(f"[{group}]")
+        sections.extend(f"{name} = {value}" for name, value in entries.items())
+        sections.append("")
+    return "\\n".join(sections)
+
+
+def _source_files(root):
+    """(absolute path, path relative to root) for every file under root."""
+    for dirpath, dirnames, filenames in os.walk(root):
+        dirnames[:] = sorted(d for d in dirnames if d not in ("__pycache__", ".git"))
+        for name in sorted(filenames):
+            if name.endswith(".pyc"):
+                continue
+            full = os.path.join(dirpath, name)
+            yield full, os.path.relpath(full, root)
+
+
+def _package_roots(repo_dir, project):
+    """Directory holding the importable packages (repo root or src/), and the
+    top-level packages and modules to put in the wheel."""
+    base = repo_dir
+    if os.path.isdir(os.path.join(repo_dir, "src")):
+        base = os.path.join(repo_dir, "src")
+    tops = [
+        name for name in sorted(os.listdir(base))
+        if name not in _BUILD_EXCLUDED_DIRS
+        and os.path.isfile(os.path.join(base, name, "__init__.py"))
+    ]
+    # Single-module packages are only included when an entry point names them
+    for entries in project.get("entry-points", {}).values():
+        for value in entries.values():
+            top = value.partition(":")[0].strip().split(".")[0]
+            if top not in tops and os.path.isfile(os.path.join(base, top + ".py")):
+                tops.append(top + ".py")
+    if not tops:
+        raise ValueError("No importable package (a directory with __init__.py) found")
+    return base, tops
+
+
+def _record_line(path, data):
+    digest = base64.urlsafe_b64encode(hashlib.sha256(data).digest()).rstrip(b"=").decode()
+    return f"{path},sha256={digest},{len(data)}"
+
+
+def _build_wheel(repo_dir, project, stem):
+    base, tops = _package_roots(repo_dir, project)
+    dist_info = f"{stem}.dist-info"
+    files = []
+    for top in tops:
+        full = os.path.join(base, top)
+        if os.path.isfile(full):
+            with open(full, "rb") as f:
+                files.append((top, f.read()))
+            continue
+        for path, rel in _source_files(full):
+            with open(path, "rb") as f:
+                files.append((f"{top}/{rel}", f.read()))
+
+    files.append((f"{dist_info}/METADATA", _build_metadata(repo_dir, project).encode()))
+    files.append((f"{dist_info}/WHEEL", (
+        "Wheel-Version: 1.0\\nGenerator: yaduha-studio\\nRoot-Is-Purelib: true\\nTag: py3-none-any\\n"
+    ).encode()))
+    entry_points = _build_entry_points(project)
+    if entry_points:
+        files.append((f"{dist_info}/entry_points.txt", entry_points.encode()))
+    record = [_record_line(path, data) for path, data in files]
+    record.append(f"{dist_info}/RECORD,,")
+    files.append((f"{dist_info}/RECORD", ("\\n".join(record) + "\\n").encode()))
+
+    buf = io.BytesIO()
+    with zipfile.ZipFile(buf, "w", zipfile.ZIP_DEFLATED) as zf:
+        for path, data in files:
+            zf.writestr(path, data)
+    return f"{stem}-py3-none-any.whl", buf.getvalue()
+
+
+def _build_sdist(repo_dir, project, stem):
+    buf = io.BytesIO()
+    with tarfile.open(fileobj=buf, mode="w:gz") as tf:
+        def add(name, data):
+            info = tarfile.TarInfo(f"{stem}/{name}")
+            info.size = len(data)
+            info.mtime = int(time.time())
+            tf.addfile(info, io.BytesIO(data))
+
+        for path, rel in _source_files(repo_dir):
+            with open(path, "rb") as f:
+                add(rel, f.read())
+        add("PKG-INFO", _build_metadata(repo_dir, project).encode())
+    return f"{stem}.tar.gz", buf.getvalue()
+
+
+def _build_zip(repo_dir, stem):
+    buf = io.BytesIO()
+    with zipfile.ZipFile(buf, "w", zipfile.ZIP_DEFLATED) as zf:
+        for path, rel in _source_files(repo_dir):
+            zf.write(path, f"{stem}/{rel}")
+    return f"{stem}.zip", buf.getvalue()
+
+
+def build_distribution(repo_dir, kind):
+    """Build a "wheel", "sdist" or "zip". Returns {"file_name", "data"} with
+    the file base64-encoded."""
+    project = _build_project(repo_dir)
+    # Normalized as in wheel and sdist file names
+    stem = f"{re.sub(r'[-_.]+', '_', project['name']).lower()}-{project['version']}"
+    if kind == "wheel":
+        file_name, data = _build_wheel(repo_dir, project, stem)
+    elif kind == "sdist":
+        file_name, data = _build_sdist(repo_dir, project, stem)
+    elif kind == "zip":
+        file_name, data = _build_zip(repo_dir, stem)
+    else:
+        raise ValueError(f"Unknown build kind: {kind}")
+    return {"file_name": file_name, "data": base64.b64encode(data).decode()}
+`;
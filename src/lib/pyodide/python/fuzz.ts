@@ -0,0 +1,47 @@
+/**
+ * Python source for rendering many instances of one sentence type in a
+ * single request, used by the fuzzer. Instances are generated on the main
+ * thread from the JSON schema; here they are only constructed and rendered.
+ *
+ * Relies on _exception_issue from VALIDATION_PY. Same template literal rules.
+ */
+
+export const FUZZ_PY = `
+from pydantic import ValidationError
+
+
+def render_many(language, sentence_type, items, repo_dir):
+    """Render each data dict. Returns one outcome per item: {"rendered"},
+    {"rejected"} when the model refuses the data, or {"error", ...}."""
+    st = next((s for s in language.sentence_types if s.__name__ == sentence_type), None)
+    if st is None:
+        raise ValueError(f"Unknown sentence type: {sentence_type}")
+
+    outcomes = []
+    for data in items:
+        try:
+            instance = st(**data)
+        except ValidationError as e:
+            outcomes.append({"rejected": str(e)})
+            continue
+        except Exception as e:
+            outcomes.append(_fuzz_error(e, repo_dir))
+            continue
+        try:
+            rendered = str(instance)
+        except Exception as e:
+            outcomes.append(_fuzz_error(e, repo_dir))
+            continue
+        outcomes.append({"rendered": rendered})
+    return outcomes
+
+
+def _fuzz_error(exc, repo_dir):
+    issue = _exception_issue("render-failed", exc, repo_dir)
+    outcome = {"error": issue["message"], "error_type": issue["error_type"]}
+    if "file" in issue:
+        outcome["file"] = issue["file"]
+    if "line" in issue:
+        outcome["line"] = issue["line"]
+    return outcome
+`;
@@ -0,0 +1,65 @@
+/**
+ * Python source for editor language features, backed by Jedi.
+ *
+ * Jedi analyses the editor's current buffer against the package files
+ * written to /repo by the last validation, so completions know about the
+ * project's own sentence types, helper models and vocabulary lists.
+ * Lines are 1-based and columns 0-based (Jedi's convention).
+ */
+
+export const LANGUAGE_SERVICE_PY = `
+import jedi
+
+_jedi_project = None
+
+
+def _jedi_script(repo_dir, path, source):
+    global _jedi_project
+    if _jedi_project is None:
+        _jedi_project = jedi.Project(repo_dir, added_sys_path=[repo_dir])
+    return jedi.Script(code=source, path=f"{repo_dir}/{path}", project=_jedi_project)
+
+
+def ls_complete(repo_dir, path, source, line, column, limit=200):
+    completions = _jedi_script(repo_dir, path, source).complete(line, column)
+    items = []
+    for c in completions[:limit]:
+        items.append({
+            "label": c.name,
+            "kind": c.type,
+            "detail": c.description,
+            "insert": c.complete,
+        })
+    return items
+
+
+def ls_definition(repo_dir, path, source, line, column):
+    names = _jedi_script(repo_dir, path, source).goto(
+        line, column, follow_imports=True, follow_builtin_imports=False,
+    )
+    results = []
+    for name in names:
+        module_path = str(name.module_path) if name.module_path else None
+        if not module_path or not module_path.startswith(repo_dir + "/") or name.line is None:
+            continue  # only navigate within the package
+        results.append({
+            "file": module_path[len(repo_dir) + 1:],
+            "line": name.line,
+            "column": name.column,
+            "name": name.name,
+        })
+    return results
+
+
+def ls_signatures(repo_dir, path, source, line, column):
+    signatures = _jedi_script(repo_dir, path, source).get_signatures(line, column)
+    results = []
+    for sig in signatures:
+        results.append({
+            "label": sig.to_string(),
+            "documentation": sig.docstring(raw=True),
+            "params": [p.to_string() for p in sig.params],
+            "active_param": sig.index,
+        })
+    return results
+`;
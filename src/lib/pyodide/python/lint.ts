@@ -0,0 +1,195 @@
+/**
+ * Python source for lint checks: problems that don't break loading but make
+ * a package worse to translate with. Every issue has severity "warning".
+ * Also lists the package's vocabulary, which the editor shows on hover.
+ *
+ * Relies on helpers from VALIDATION_PY (_issue, _field_location, ...), so it
+ * must be run after it. Same template literal rules apply.
+ */
+
+export const LINT_PY = `
+import inspect
+import re
+import sys
+
+
+def _lint_descriptions(model, sentence_type, repo_dir, issues, seen):
+    """Fields without a description leave the translator guessing."""
+    if model in seen:
+        return
+    seen.add(model)
+    for name, field in model.model_fields.items():
+        if not (field.description or "").strip():
+            file, line = _field_location(model, name, repo_dir)
+            issues.append(_issue(
+                "missing-field-description",
+                f"{model.__name__}.{name} has no Field(description=...); the translator relies on it",
+                severity="warning", file=file, line=line, sentence_type=sentence_type,
+            ))
+        for nested in _nested_models(field.annotation):
+            _lint_descriptions(nested, sentence_type, repo_dir, issues, seen)
+
+
+def _lint_examples(st, info, repo_dir, issues):
+    name = st.__name__
+    if not _declared_in_package(st, "get_examples"):
+        return  # already an error
+    file, line = _source_location(getattr(st.get_examples, "__func__", st.get_examples), repo_dir)
+    if not info["examples"]:
+        issues.append(_issue(
+            "no-examples",
+            f"{name}.get_examples() returns no examples; the translator has nothing to learn from",
+            severity="warning", file=file, line=line, sentence_type=name,
+        ))
+    for example in info["examples"]:
+        if not (example["english"] or "").strip():
+            issues.append(_issue(
+                "empty-example-english",
+                f"An example of {name} has empty English text (renders as {example['target']!r})",
+                severity="warning", file=file, line=line, sentence_type=name,
+            ))
+
+
+def _schema_enum_values(node, out):
+    """Collect every enum value appearing anywhere in a JSON schema."""
+    if isinstance(node, dict):
+        for key, value in node.items():
+            if key == "enum" and isinstance(value, list):
+                out.update(v for v in value if isinstance(v, str))
+            else:
+                _schema_enum_values(value, out)
+    elif isinstance(node, list):
+        for value in node:
+            _schema_enum_values(value, out)
+
+
+def _package_modules(repo_dir):
+    return [
+        m for m in list(sys.modules.values())
+        if _rel_path(getattr(m, "__file__", None), repo_dir)
+    ]
+
+
+def _vocab_collections(repo_dir):
+    """Module-level lists/tuples/dicts of VocabEntry in the package.
+    Yields (module, name, entries)."""
+    try:
+        from yaduha.language import VocabEntry
+    except ImportError:
+        return
+    for module in _package_modules(repo_dir):
+        for name, value in list(vars(module).items()):
+            if name.startswith("_"):
+                continue
+            if isinstance(value, dict):
+                items = list(value.values())
+            elif isinstance(value, (list, tuple)):
+                items = list(value)
+            else:
+                continue
+            if not (items and all(isinstance(v, VocabEntry) for v in items)):
+                continue
+            # Skip re-exports: report each list where it is defined
+            if _definition_line(module, name) is not None:
+                yield module, name, items
+
+
+def package_vocabulary(repo_dir):
+    """Vocabulary lists defined in the package, with their entries."""
+    return [
+        {
+            "name": name,
+            "file": _rel_path(module.__file__, repo_dir),
+            "line": _definition_line(module, name),
+            "entries": [{"english": e.english, "target": e.target} for e in entries],
+        }
+        for module, name, entries in _vocab_collections(repo_dir)
+    ]
+
+
+def _definition_line(module, name):
+    """Line where a module-level name is assigned, or None."""
+    try:
+        lines = inspect.getsource(module).splitlines()
+    except (TypeError, OSError):
+        return None
+    for number, text in enumerate(lines, start=1):
+        if text.startswith(name) and text[len(name):].lstrip()[:1] in ("=", ":"):
+            return number
+    return None
+
+
+def _lemma_line(module, start, lemma):
+    """First line at or after start mentioning the quoted lemma."""
+    try:
+        lines = inspect.getsource(module).splitlines()
+    except (TypeError, OSError):
+        return start
+    for number in range((start or 1), len(lines) + 1):
+        text = lines[number - 1]
+        if f'"{lemma}"' in text or f"'{lemma}'" in text:
+            return number
+    return start
+
+
+def _lint_vocabulary(schema_infos, repo_dir, issues):
+    """Vocabulary the translator can never pick: whole lists nobody refers
+    to, and entries missing from the enums a list otherwise feeds."""
+    enum_values = set()
+    for info in schema_infos:
+        _schema_enum_values(info["json_schema"], enum_values)
+
+    sources = []
+    for module in _package_modules(repo_dir):
+        try:
+            sources.append(inspect.getsource(module))
+        except (TypeError, OSError):
+            pass
+
+    for module, name, entries in _vocab_collections(repo_dir):
+        file = _rel_path(module.__file__, repo_dir)
+        line = _definition_line(module, name)
+        references = sum(
+            len(re.findall(rf"(?<![A-Za-z0-9_]){re.escape(name)}(?![A-Za-z0-9_])", source))
+            for source in sources
+        )
+        if references <= 1:
+            issues.append(_issue(
+                "unused-vocab",
+                f"Vocabulary list {name} ({len(entries)} entries) is never used",
+                severity="warning", file=file, line=line,
+            ))
+            continue
+
+        offered = [e for e in entries if e.english in enum_values]
+        if not offered:
+            continue  # used some other way (lookups, validators)
+        for entry in entries:
+            if entry.english not in enum_values:
+                issues.append(_issue(
+                    "unused-vocab",
+                    f"{name}: {entry.english!r} ({entry.target!r}) is not offered by any sentence type field",
+                    severity="warning", file=file, line=_lemma_line(module, line, entry.english),
+                ))
+
+
+def lint_package(languages, repo_dir):
+    """Warning-severity issues for the languages that loaded, given as
+    (language, schemas) pairs. Sentence types shared by several languages
+    are linted once; vocabulary counts as used if any language offers it."""
+    issues = []
+    seen = set()
+    linted = set()
+    for language, schemas in languages:
+        for st in language.sentence_types:
+            if id(st) in linted:
+                continue
+            linted.add(id(st))
+            _lint_descriptions(st, st.__name__, repo_dir, issues, seen)
+            if st.__name__ in schemas:
+                _lint_examples(st, schemas[st.__name__], repo_dir, issues)
+    _lint_vocabulary(
+        [info for _, schemas in languages for info in schemas.values()], repo_dir, issues
+    )
+    return issues
+`;
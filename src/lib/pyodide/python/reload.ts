@@ -0,0 +1,80 @@
+/**
+ * Python source for incremental reloads. The worker writes only the files
+ * that changed since the last validation; this works out which imported
+ * package modules are now stale so the loader re-imports just those.
+ *
+ * Same template literal rules as VALIDATION_PY.
+ */
+
+export const RELOAD_PY = `
+import ast
+import importlib
+import os
+import sys
+
+
+def _repo_modules(repo_dir):
+    """Imported modules whose source is in the repo, keyed by relative path."""
+    prefix = repo_dir + "/"
+    found = {}
+    for name, module in list(sys.modules.items()):
+        path = getattr(module, "__file__", None) or ""
+        if path.startswith(prefix):
+            found[path[len(prefix):]] = name
+    return found
+
+
+def _imported_names(path, module_name, is_package):
+    """Every module name a file's import statements could refer to."""
+    try:
+        with open(path, encoding="utf-8") as f:
+            tree = ast.parse(f.read(), path)
+    except (OSError, SyntaxError, ValueError):
+        return set()
+
+    package = module_name if is_package else module_name.rpartition(".")[0]
+    names = set()
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            names.update(alias.name for alias in node.names)
+        elif isinstance(node, ast.ImportFrom):
+            base = node.module or ""
+            if node.level:
+                parts = package.split(".") if package else []
+                parts = parts[:len(parts) - (node.level - 1)]
+                base = ".".join([*parts, base] if base else parts)
+            names.add(base)
+            # "from pkg import sub" may name a submodule
+            names.update(f"{base}.{alias.name}" for alias in node.names)
+    return names
+
+
+def reload_repo_modules(repo_dir, changed, removed):
+    """Drop the modules for changed or removed files from sys.modules, along
+    with every package module that imports them, directly or not. Returns the
+    evicted module names."""
+    importlib.invalidate_caches()
+    loaded = _repo_modules(repo_dir)
+    touched = [p for p in [*changed, *removed] if not p.endswith(".md")]
+
+    if any(not p.endswith(".py") for p in touched):
+        # pyproject.toml or a data file: any module may read it at import time
+        stale = set(loaded.values())
+    else:
+        stale = {loaded[p] for p in touched if p in loaded}
+        importers = {}
+        for path, name in loaded.items():
+            is_package = hasattr(sys.modules.get(name), "__path__")
+            for dep in _imported_names(os.path.join(repo_dir, path), name, is_package):
+                importers.setdefault(dep, set()).add(name)
+        pending = list(stale)
+        while pending:
+            for importer in importers.get(pending.pop(), ()):
+                if importer not in stale:
+                    stale.add(importer)
+                    pending.append(importer)
+
+    for name in stale:
+        sys.modules.pop(name, None)
+    return sorted(stale)
+`;
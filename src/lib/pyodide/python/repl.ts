@@ -0,0 +1,68 @@
+/**
+ * Python source for the REPL tab. Code runs in one namespace that lives as
+ * long as the worker, seeded with the loaded `language` and its sentence
+ * types. Like a notebook cell, a trailing expression is evaluated and its
+ * value displayed; Pydantic models also get their JSON and str() render.
+ *
+ * Same template literal rules as VALIDATION_PY.
+ */
+
+export const REPL_PY = `
+import ast
+import traceback
+from pydantic import BaseModel
+
+_repl_ns = {"__name__": "__repl__", "__builtins__": __builtins__}
+# Language the namespace was last seeded from
+_repl_seeded = {"language": None}
+
+
+def _repl_seed(language):
+    """Put the language and its sentence types in scope after each reload,
+    leaving the user's own variables alone."""
+    if language is None or _repl_seeded["language"] is language:
+        return
+    _repl_seeded["language"] = language
+    _repl_ns["language"] = language
+    for st in language.sentence_types:
+        _repl_ns[st.__name__] = st
+
+
+def _repl_display(value):
+    display = {"repr": repr(value)}
+    if isinstance(value, BaseModel):
+        display["type"] = type(value).__name__
+        display["json"] = value.model_dump_json(indent=2)
+        try:
+            display["rendered"] = str(value)
+        except Exception as e:
+            display["render_error"] = f"{type(e).__name__}: {e}"
+    return display
+
+
+def repl_run(language, source):
+    """Run one input. Returns {"value"} for a trailing expression that isn't
+    None, {"error"} with a traceback, or {} for statements."""
+    _repl_seed(language)
+    try:
+        tree = ast.parse(source, "<repl>", "exec")
+    except SyntaxError as e:
+        return {"error": "".join(traceback.format_exception_only(type(e), e))}
+
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+
+    try:
+        if tree.body:
+            exec(compile(tree, "<repl>", "exec"), _repl_ns)
+        if last is not None:
+            value = eval(compile(last, "<repl>", "eval"), _repl_ns)
+            if value is not None:
+                _repl_ns["_"] = value
+                return {"value": _repl_display(value)}
+    except BaseException as e:
+        # Drop this function's own frame from the traceback
+        return {"error": "".join(traceback.format_exception(type(e), e, e.__traceback__.tb_next))}
+    return {}
+`;
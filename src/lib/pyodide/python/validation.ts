@@ -0,0 +1,417 @@
+/**
+ * Python source for package validation, defined once in the worker at init.
+ *
+ * `validate_package(repo_dir)` loads the language package and keeps going
+ * after the first problem: every issue it finds is collected with a file,
+ * line, severity, sentence type and machine-readable code.
+ *
+ * Kept as a string (rather than a .py asset) so it ships inside the worker
+ * bundle. Mind the template literal: no backticks, no "${", double every
+ * backslash.
+ */
+
+export const VALIDATION_PY = `
+import enum
+import importlib
+import inspect
+import os
+import sys
+import traceback
+import typing
+
+from pydantic import BaseModel
+
+
+def _rel_path(path, repo_dir):
+    if path and path.startswith(repo_dir + "/"):
+        return path[len(repo_dir) + 1:]
+    return None
+
+
+def _issue(code, message, severity="error", file=None, line=None,
+           sentence_type=None, error_type=None, tb=None):
+    issue = {"code": code, "severity": severity, "message": message}
+    if file:
+        issue["file"] = file
+    if line:
+        issue["line"] = line
+    if sentence_type:
+        issue["sentence_type"] = sentence_type
+    if error_type:
+        issue["error_type"] = error_type
+    if tb:
+        issue["traceback"] = tb
+    return issue
+
+
+def _exception_issue(code, exc, repo_dir, sentence_type=None, context=None):
+    """Issue for an exception, located at the innermost frame in the package."""
+    file, line = None, None
+    if isinstance(exc, SyntaxError) and _rel_path(exc.filename, repo_dir):
+        file, line = _rel_path(exc.filename, repo_dir), exc.lineno
+    else:
+        for frame in traceback.extract_tb(exc.__traceback__):
+            rel = _rel_path(frame.filename, repo_dir)
+            if rel:
+                file, line = rel, frame.lineno
+    message = str(exc) or type(exc).__name__
+    if context:
+        message = f"{context}: {message}"
+    return _issue(
+        code, message, file=file, line=line, sentence_type=sentence_type,
+        error_type=type(exc).__name__,
+        tb="".join(traceback.format_exception(exc)),
+    )
+
+
+def _source_location(obj, repo_dir):
+    """(relative path, line) where a class or function is defined."""
+    try:
+        rel = _rel_path(inspect.getsourcefile(obj), repo_dir)
+        _, line = inspect.getsourcelines(obj)
+        return rel, line
+    except (TypeError, OSError):
+        return None, None
+
+
+def _field_location(cls, field_name, repo_dir):
+    """Line of \`field_name: ...\` inside a model class, else the class line."""
+    file, line = _source_location(cls, repo_dir)
+    try:
+        lines, start = inspect.getsourcelines(cls)
+    except (TypeError, OSError):
+        return file, line
+    for offset, text in enumerate(lines):
+        stripped = text.lstrip()
+        if stripped.startswith(field_name) and stripped[len(field_name):].lstrip().startswith(":"):
+            return file, start + offset
+    return file, line
+
+
+def _is_framework_module(module_name):
+    top = module_name.split(".")[0]
+    return top in ("yaduha", "pydantic", "builtins")
+
+
+def _declared_in_package(cls, name):
+    """Whether a class in cls's MRO, other than yaduha/pydantic bases, defines name."""
+    for klass in cls.__mro__:
+        if _is_framework_module(klass.__module__):
+            continue
+        if name in klass.__dict__:
+            return True
+    return False
+
+
+def _nested_models(annotation):
+    """Pydantic model classes referenced by a field annotation."""
+    if isinstance(annotation, type) and issubclass(annotation, BaseModel):
+        return [annotation]
+    found = []
+    for arg in typing.get_args(annotation):
+        found.extend(_nested_models(arg))
+    return found
+
+
+def _check_enums(model, repo_dir, sentence_type, issues, seen):
+    """json_schema_extra={"enum": [...]} must be a non-empty list that
+    contains the field's default."""
+    if model in seen:
+        return
+    seen.add(model)
+    for name, field in model.model_fields.items():
+        extra = field.json_schema_extra
+        if isinstance(extra, dict) and "enum" in extra:
+            values = extra["enum"]
+            file, line = _field_location(model, name, repo_dir)
+            where = f"{model.__name__}.{name}"
+            if not isinstance(values, (list, tuple)) or len(values) == 0:
+                issues.append(_issue(
+                    "bad-enum",
+                    f"{where}: json_schema_extra enum must be a non-empty list, got {values!r}",
+                    file=file, line=line, sentence_type=sentence_type,
+                ))
+            elif len(set(map(repr, values))) != len(values):
+                issues.append(_issue(
+                    "bad-enum",
+                    f"{where}: json_schema_extra enum contains duplicate values",
+                    file=file, line=line, sentence_type=sentence_type,
+                ))
+            elif not field.is_required() and field.default is not None:
+                default = field.default.value if isinstance(field.default, enum.Enum) else field.default
+                if default not in values:
+                    issues.append(_issue(
+                        "bad-enum",
+                        f"{where}: default {default!r} is not one of the enum values",
+                        file=file, line=line, sentence_type=sentence_type,
+                    ))
+        for nested in _nested_models(field.annotation):
+            _check_enums(nested, repo_dir, sentence_type, issues, seen)
+
+
+def _check_sentence_type(st, repo_dir, issues):
+    """Check one sentence type. Returns its schema info for the builder."""
+    name = st.__name__
+    file, line = _source_location(st, repo_dir)
+    info = {"name": name, "json_schema": {}, "examples": []}
+
+    try:
+        info["json_schema"] = st.model_json_schema()
+    except Exception as e:
+        issues.append(_exception_issue("schema-failed", e, repo_dir, name, "model_json_schema() failed"))
+
+    _check_enums(st, repo_dir, name, issues, set())
+
+    if not _declared_in_package(st, "__str__"):
+        issues.append(_issue(
+            "missing-str", f"{name} does not define __str__",
+            file=file, line=line, sentence_type=name,
+        ))
+
+    if not _declared_in_package(st, "get_examples"):
+        issues.append(_issue(
+            "missing-get-examples", f"{name} does not define get_examples()",
+            file=file, line=line, sentence_type=name,
+        ))
+        return info
+
+    try:
+        examples = list(st.get_examples())
+    except Exception as e:
+        issues.append(_exception_issue("get-examples-failed", e, repo_dir, name, f"{name}.get_examples() raised"))
+        return info
+
+    ex_file, ex_line = _source_location(getattr(st.get_examples, "__func__", st.get_examples), repo_dir)
+    for i, example in enumerate(examples):
+        if not (isinstance(example, tuple) and len(example) == 2 and isinstance(example[1], st)):
+            issues.append(_issue(
+                "bad-example",
+                f"{name}.get_examples()[{i}] must be an (english, {name}) tuple, got {type(example).__name__}",
+                file=ex_file or file, line=ex_line or line, sentence_type=name,
+            ))
+            continue
+        english, instance = example
+        try:
+            target = str(instance)
+        except Exception as e:
+            issues.append(_exception_issue("render-failed", e, repo_dir, name, f"Rendering example {english!r} raised"))
+            continue
+        if not isinstance(target, str) or not target.strip():
+            issues.append(_issue(
+                "empty-render",
+                f"__str__ returned an empty string for example {english!r}",
+                file=file, line=line, sentence_type=name,
+            ))
+        info["examples"].append({
+            "english": english,
+            "structured": instance.model_dump(mode="json"),
+            "target": target,
+        })
+    return info
+
+
+ENTRY_POINT_GROUP = "yaduha.languages"
+
+
+def _entry_point_line(lines, key):
+    """Line of \`key = ...\` in the yaduha.languages table, else its header."""
+    header = None
+    for i, text in enumerate(lines):
+        stripped = text.strip()
+        if stripped.startswith("["):
+            if header is not None:
+                break
+            if ENTRY_POINT_GROUP in stripped and "entry-points" in stripped:
+                header = i + 1
+            continue
+        if header is not None:
+            name = stripped.partition("=")[0].strip().strip("\\"'")
+            if name == key:
+                return i + 1
+    return header
+
+
+def _entry_points(repo_dir):
+    """The yaduha.languages entry points in pyproject.toml, with the file's
+    lines for locating them; (None, []) when it is missing or unreadable.
+    Puts a src/ layout on sys.path, where installing the package would."""
+    import tomllib
+    from importlib.metadata import EntryPoint
+
+    path = os.path.join(repo_dir, "pyproject.toml")
+    try:
+        with open(path, "rb") as f:
+            data = tomllib.load(f)
+        with open(path, encoding="utf-8") as f:
+            lines = f.read().splitlines()
+    except Exception:
+        return None, []
+
+    src_dir = os.path.join(repo_dir, "src")
+    if os.path.isdir(src_dir) and src_dir not in sys.path:
+        sys.path.append(src_dir)
+
+    entries = data.get("project", {}).get("entry-points", {}).get(ENTRY_POINT_GROUP, {})
+    eps = [EntryPoint(name=key, value=str(value), group=ENTRY_POINT_GROUP)
+           for key, value in entries.items()]
+    return eps, lines
+
+
+def _language_from_entry_points(repo_dir):
+    """Import the Language named by the first entry point directly, so the
+    package can still be inspected when the loader rejects it."""
+    eps, _ = _entry_points(repo_dir)
+    if not eps or eps[0].attr is None:
+        return None
+    return eps[0].load()
+
+
+def _check_entry_points(repo_dir, issues):
+    """Resolve each yaduha.languages entry point the way importlib.metadata
+    does for an installed package, and check it names a Language whose code
+    matches its key. Returns {key: language} for the entries that resolve."""
+    eps, lines = _entry_points(repo_dir)
+    if eps is None:
+        return {}  # reported by the loader
+    if not eps:
+        issues.append(_issue(
+            "missing-entry-point",
+            f'pyproject.toml has no [project.entry-points."{ENTRY_POINT_GROUP}"] table, '
+            "so yaduha can't find the language once the package is installed",
+            severity="warning", file="pyproject.toml",
+        ))
+        return {}
+
+    resolved = {}
+    for ep in eps:
+        key, value = ep.name, ep.value
+        line = _entry_point_line(lines, key)
+        where = {"file": "pyproject.toml", "line": line}
+        if ep.attr is None:
+            issues.append(_issue(
+                "entry-point-syntax",
+                f'Entry point "{key}" = "{value}" should be "module.path:attribute", '
+                "e.g. my_language:language",
+                **where,
+            ))
+            continue
+        try:
+            module = importlib.import_module(ep.module)
+        except Exception as e:
+            issue = _exception_issue("entry-point-import", e, repo_dir,
+                                     context=f'Entry point "{key}" cannot import {ep.module}')
+            if "file" not in issue:
+                issue.update(where)
+            # Often the same exception the loader already reported
+            if not any(i.get("error_type") == issue.get("error_type") and i.get("file") == issue["file"]
+                       and i.get("line") == issue.get("line") for i in issues):
+                issues.append(issue)
+            continue
+        try:
+            obj = module
+            for part in ep.attr.split("."):
+                obj = getattr(obj, part)
+        except AttributeError:
+            issues.append(_issue(
+                "entry-point-attr",
+                f'Entry point "{key}": module {ep.module} has no attribute "{ep.attr}"',
+                **where,
+            ))
+            continue
+        if not all(hasattr(obj, a) for a in ("code", "name", "sentence_types")):
+            issues.append(_issue(
+                "entry-point-type",
+                f'Entry point "{key}" resolves to {type(obj).__name__}, not a yaduha Language',
+                **where,
+            ))
+            continue
+        if obj.code != key:
+            issues.append(_issue(
+                "entry-point-key",
+                f'Entry point key "{key}" does not match language.code "{obj.code}"; '
+                "yaduha looks languages up by this key",
+                **where,
+            ))
+        resolved[key] = obj
+    return resolved
+
+
+def _check_language(language, repo_dir, issues, checked):
+    """Check a language's sentence types. Returns their schema info by name.
+    checked maps id(sentence type) to its info, so types shared between
+    languages are only checked once."""
+    schemas = {}
+    for st in language.sentence_types:
+        if id(st) not in checked:
+            checked[id(st)] = _check_sentence_type(st, repo_dir, issues)
+        schemas[st.__name__] = checked[id(st)]
+    return schemas
+
+
+def _language_summary(language, schemas):
+    return {
+        "code": language.code,
+        "name": language.name,
+        "sentence_types": [st.__name__ for st in language.sentence_types],
+        "schemas": schemas,
+    }
+
+
+def validate_package(repo_dir, dependency_issues=()):
+    """Validate the package at repo_dir. Returns ({code: language}, result
+    dict), the loader's language first; repos may declare several languages
+    as entry points. dependency_issues come from installing pyproject
+    dependencies beforehand."""
+    from yaduha.loader import LanguageLoader
+
+    issues = list(dependency_issues)
+    language = None
+    load_issue = None
+    try:
+        language = LanguageLoader.load_language_from_source(repo_dir)
+    except Exception as e:
+        load_issue = _exception_issue("load-failed", e, repo_dir)
+        try:
+            language = _language_from_entry_points(repo_dir)
+        except Exception:
+            language = None
+
+    checked = {}
+    # code -> (language, schemas)
+    languages = {}
+    if language is not None:
+        languages[language.code] = (language, _check_language(language, repo_dir, issues, checked))
+
+    # Always keep the loader's own traceback, even when the checks found
+    # other errors: it is what fails when yaduha loads the package
+    if load_issue:
+        issues.insert(0, load_issue)
+
+    for other in _check_entry_points(repo_dir, issues).values():
+        if other.code not in languages:
+            languages[other.code] = (other, _check_language(other, repo_dir, issues, checked))
+
+    if languages:
+        try:
+            issues.extend(lint_package(list(languages.values()), repo_dir))
+        except Exception as e:
+            issues.append(_exception_issue("lint-failed", e, repo_dir, context="Lint checks crashed"))
+            issues[-1]["severity"] = "warning"
+
+    errors = [i for i in issues if i["severity"] == "error"]
+    result = {"valid": not errors, "issues": issues}
+    if languages:
+        summaries = [_language_summary(lang, schemas) for lang, schemas in languages.values()]
+        # The first language also fills the single-language fields
+        result.update({k: v for k, v in summaries[0].items() if k != "code"})
+        result["language"] = summaries[0]["code"]
+        result["languages"] = summaries
+        try:
+            result["vocabulary"] = package_vocabulary(repo_dir)
+        except Exception:
+            pass  # only used for editor hovers
+    if errors:
+        result["error"] = errors[0]["message"]
+        result["error_type"] = errors[0].get("error_type", errors[0]["code"])
+    return {code: lang for code, (lang, _) in languages.items()}, result
+`;
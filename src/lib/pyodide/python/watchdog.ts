@@ -0,0 +1,52 @@
+/**
+ * Python source for reporting where package code is running, so a request
+ * the manager times out can say which file and line it was stuck on. The
+ * worker can't answer messages while Python runs, so the location is posted
+ * from a trace function as execution goes.
+ *
+ * Only frames in the repo are line-traced; everything else pays for a single
+ * call event. Same template literal rules as VALIDATION_PY.
+ */
+
+export const WATCHDOG_PY = `
+import sys
+import time
+from js import Object, postMessage
+from pyodide.ffi import to_js
+
+# Seconds between location reports while package code keeps running
+_WATCH_INTERVAL = 0.2
+
+_watch = {"id": None, "prefix": None, "last": 0.0}
+
+
+def _watch_line(frame, event, arg):
+    if event == "line":
+        now = time.monotonic()
+        if now - _watch["last"] >= _WATCH_INTERVAL:
+            _watch["last"] = now
+            postMessage(to_js({
+                "id": _watch["id"],
+                "type": "location",
+                "file": frame.f_code.co_filename[len(_watch["prefix"]):],
+                "line": frame.f_lineno,
+            }, dict_converter=Object.fromEntries))
+    return _watch_line
+
+
+def _watch_call(frame, event, arg):
+    if frame.f_code.co_filename.startswith(_watch["prefix"]):
+        return _watch_line
+    return None
+
+
+def watch_start(request_id, repo_dir):
+    """Report package locations for this request until watch_stop()."""
+    _watch.update(id=request_id, prefix=repo_dir + "/", last=0.0)
+    sys.settrace(_watch_call)
+
+
+def watch_stop():
+    sys.settrace(None)
+    _watch["id"] = None
+`;
@@ -0,0 +1,42 @@
+/**
+ * Locally bundled yaduha wheels (see scripts/bundle-pyodide.mjs).
+ * Shared by the worker (to install from the app's origin) and the UI
+ * (to offer bundled versions per project).
+ */
+
+export interface WheelManifest {
+  /** Version installed when a project doesn't pick one */
+  default?: string;
+  /** yaduha version -> wheel file name under /wheels/ */
+  yaduha: Record<string, string>;
+}
+
+export const WHEELS_BASE_PATH = "/wheels/";
+
+/** Fetch the wheel manifest, or null when no wheels are bundled. */
+export async function fetchWheelManifest(
+  origin = ""
+): Promise<WheelManifest | null> {
+  try {
+    const res = await fetch(`${origin}${WHEELS_BASE_PATH}manifest.json`);
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Requirement to pass to `micropip.install` for the given yaduha version:
+ * a bundled wheel URL when available, otherwise a PyPI requirement.
+ */
+export function resolveYaduhaRequirement(
+  manifest: WheelManifest | null,
+  origin: string,
+  version?: string
+): string {
+  const wanted = version || manifest?.default;
+  const wheel = wanted ? manifest?.yaduha[wanted] : undefined;
+  if (wheel) return `${origin}${WHEELS_BASE_PATH}${wheel}`;
+  return wanted ? `yaduha==${wanted}` : "yaduha";
+}
@@ -1,30 +1,94 @@
 /**
  * Web Worker that loads Pyodide and runs yaduha validation + translation.
  *
- * Communication protocol:
- *   Main -> Worker: { type: "validate", files: Record<string, string> }
- *   Main -> Worker: { type: "translate", english: string, provider: string, model: string, apiKey?: string }
+ * Communication protocol (every request carries a numeric `id`, echoed in the reply):
+ *   Main -> Worker: { id, type: "validate", files: Record<string, string>, yaduhaVersion?: string }
+ *   Main -> Worker: { id, type: "render", sentenceType: string, data: Record<string, unknown>, language?: string }
+ *   Main -> Worker: { id, type: "render_batch", sentenceType: string, items: Record<string, unknown>[], language?: string }
+ *   Main -> Worker: { id, type: "translate", english: string, provider: string, model: string, apiKey?: string, baseUrl?: string, language?: string }
+ *   Main -> Worker: { id, type: "repl", source: string, language?: string }
+ *   Main -> Worker: { id, type: "build", kind: "wheel" | "sdist" | "zip" }
+ *   Main -> Worker: { id, type: "complete" | "definition" | "signatures", path: string, source: string, line: number, column: number }
  *   Worker -> Main: { type: "ready" }
- *   Worker -> Main: { type: "result", data: ... }
- *   Worker -> Main: { type: "error", message: string }
+ *   Worker -> Main: { id, type: "location", file: string, line: number }  (package code running, see WATCHDOG_PY)
+ *   Worker -> Main: { id, type: "result", data: ... }
+ *   Worker -> Main: { id, type: "error", message: string }
+ *
+ * `language` is a language code from the last validation; without it the
+ * package's first language is used.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import {
+  fetchWheelManifest,
+  resolveYaduhaRequirement,
+  type WheelManifest,
+} from "./wheels";
+import { VALIDATION_PY } from "./python/validation";
+import { LINT_PY } from "./python/lint";
+import { FUZZ_PY } from "./python/fuzz";
+import { WATCHDOG_PY } from "./python/watchdog";
+import { REPL_PY } from "./python/repl";
+import { RELOAD_PY } from "./python/reload";
+import { BUILD_PY } from "./python/build";
+import { LANGUAGE_SERVICE_PY } from "./python/language-service";
+
 declare function importScripts(...urls: string[]): void;
-declare function loadPyodide(): Promise<any>;
+declare function loadPyodide(options?: { indexURL?: string }): Promise<any>;
+
+const PYODIDE_CDN_URL = "https://cdn.jsdelivr.net/pyodide/v0.27.5/full/";
 
 let pyodide: any = null;
+let wheelManifest: WheelManifest | null = null;
+let languageServiceLoaded = false;
+// Files as last written under /repo, to diff the next validation against
+let writtenFiles: Record<string, string> | null = null;
+// Package dependencies micropip already installed in this worker
+const installedDependencies = new Set<string>();
+
+/** stdout/stderr lines printed while handling the current request */
+let output: { stream: "stdout" | "stderr"; text: string }[] = [];
+/** A print loop shouldn't flood the main thread */
+const MAX_OUTPUT_LINES = 2000;
+
+function captureLine(stream: "stdout" | "stderr", text: string) {
+  if (output.length < MAX_OUTPUT_LINES) {
+    output.push({ stream, text });
+  } else if (output.length === MAX_OUTPUT_LINES) {
+    output.push({ stream: "stderr", text: `[output truncated after ${MAX_OUTPUT_LINES} lines]` });
+  }
+}
+
+/**
+ * Load pyodide.js from the app's own origin (bundled by
+ * scripts/bundle-pyodide.mjs and cached by the service worker), falling back
+ * to the CDN when the runtime isn't bundled, e.g. on the dev server.
+ */
+function loadPyodideScript(origin: string): string {
+  const localURL = `${origin}/pyodide/`;
+  try {
+    importScripts(`${localURL}pyodide.js`);
+    return localURL;
+  } catch {
+    console.warn("[worker] local Pyodide runtime not found, using CDN");
+    importScripts(`${PYODIDE_CDN_URL}pyodide.js`);
+    return PYODIDE_CDN_URL;
+  }
+}
 
 async function initPyodide() {
-  importScripts("https://cdn.jsdelivr.net/pyodide/v0.27.5/full/pyodide.js");
+  const origin = self.location.origin;
+  const indexURL = loadPyodideScript(origin);
 
-  pyodide = await loadPyodide();
+  pyodide = await loadPyodide({ indexURL });
 
-  // Install yaduha core (pydantic + tomli only)
+  // Install yaduha core (pydantic + tomli only), preferring a bundled wheel.
+  // Validation swaps in the version the package asks for (see ensureYaduha).
   await pyodide.loadPackage("micropip");
   const micropip = pyodide.pyimport("micropip");
-  await micropip.install("yaduha");
+  wheelManifest = await fetchWheelManifest(origin);
+  await micropip.install(resolveYaduhaRequirement(wheelManifest, origin));
 
   // Define the translation helper module in Pyodide
   // This replicates PipelineTranslator logic without importing yaduha.agent
@@ -32,14 +96,15 @@ async function initPyodide() {
   pyodide.runPython(`
 import json
 import re
+import sys
 from typing import List, Union, Tuple, Type
 from pydantic import BaseModel, create_model
 from js import XMLHttpRequest
 
-def _llm_call(messages, system, provider, model, api_key, proxy_url):
-    """Make a synchronous LLM call via the server proxy."""
-    from js import console
-    console.log(f"[pyodide] _llm_call: provider={provider}, model={model}, messages={len(messages)}")
+def _llm_call(messages, system, provider, model, api_key, proxy_url, base_url=None):
+    """Make a synchronous LLM call via the server proxy. base_url is the API
+    root of an OpenAI-compatible server, which the proxy forwards to."""
+    print(f"[llm] provider={provider}, model={model}, messages={len(messages)}")
     xhr = XMLHttpRequest.new()
     xhr.open("POST", proxy_url, False)
     xhr.setRequestHeader("Content-Type", "application/json")
@@ -52,19 +117,20 @@ def _llm_call(messages, system, provider, model, api_key, proxy_url):
         "system": system,
         "messages": messages,
         "stream": False,
+        **({"baseUrl": base_url} if base_url else {}),
     })
     xhr.send(body)
 
-    console.log(f"[pyodide] _llm_call response status={xhr.status}")
+    print(f"[llm] response status={xhr.status}")
     if xhr.status != 200:
-        console.error(f"[pyodide] _llm_call error: {xhr.responseText[:500]}")
+        print(f"[llm] error: {xhr.responseText[:500]}", file=sys.stderr)
         raise RuntimeError(f"LLM proxy returned {xhr.status}: {xhr.responseText[:200]}")
 
     data = json.loads(xhr.responseText)
     if "error" in data:
-        console.error(f"[pyodide] _llm_call API error: {data['error']}")
+        print(f"[llm] API error: {data['error']}", file=sys.stderr)
         raise RuntimeError(f"LLM error: {data['error']}")
-    console.log(f"[pyodide] _llm_call success, response length={len(data['text'])}")
+    print(f"[llm] success, response length={len(data['text'])}")
     return data["text"]
 
 
@@ -77,7 +143,7 @@ def _clean_text(s):
     return s
 
 
-def translate_with_pipeline(language, english, provider, model, api_key, proxy_url):
+def translate_with_pipeline(language, english, provider, model, api_key, proxy_url, base_url=None):
     """
     Replicate PipelineTranslator logic:
     1. English -> structured sentences (using schema injection like AnthropicAgent)
@@ -112,7 +178,7 @@ def translate_with_pipeline(language, english, provider, model, api_key, proxy_u
 
     messages = [{"role": "user", "content": english}]
 
-    raw_response = _llm_call(messages, system_prompt, provider, model, api_key, proxy_url)
+    raw_response = _llm_call(messages, system_prompt, provider, model, api_key, proxy_url, base_url)
 
     # Strip markdown code blocks if present
     text = raw_response.strip()
@@ -159,7 +225,7 @@ def translate_with_pipeline(language, english, provider, model, api_key, proxy_u
             {"role": "user", "content": json.dumps(sentence.model_dump_json(), ensure_ascii=False)}
         ]
 
-        bt_response = _llm_call(bt_messages, bt_system, provider, model, api_key, proxy_url)
+        bt_response = _llm_call(bt_messages, bt_system, provider, model, api_key, proxy_url, base_url)
         back_translations.append(_clean_text(bt_response))
 
     return {
@@ -170,109 +236,301 @@ def translate_with_pipeline(language, english, provider, model, api_key, proxy_u
     }
 `);
 
+  // Framework version resolution: which yaduha the package at /repo wants
+  pyodide.runPython(`
+import os
+import sys
+import tomllib
+from importlib.metadata import version as _dist_version
+from packaging.requirements import Requirement
+from packaging.specifiers import SpecifierSet
+from packaging.utils import canonicalize_name
+from packaging.version import Version
+
+def _declared_yaduha_specifier(repo_dir):
+    """The yaduha specifier from [project] dependencies, or None."""
+    path = os.path.join(repo_dir, "pyproject.toml")
+    if not os.path.exists(path):
+        return None
+    try:
+        with open(path, "rb") as f:
+            deps = tomllib.load(f).get("project", {}).get("dependencies", [])
+        for dep in deps:
+            req = Requirement(dep)
+            if canonicalize_name(req.name) == "yaduha":
+                return str(req.specifier)
+    except Exception:
+        pass  # a malformed pyproject.toml is reported by the loader
+    return None
+
+
+def _declared_dependencies(repo_dir):
+    """[project] dependencies other than yaduha that apply in Pyodide, with
+    the pyproject.toml line each is declared on."""
+    path = os.path.join(repo_dir, "pyproject.toml")
+    if not os.path.exists(path):
+        return []
+    try:
+        with open(path, "rb") as f:
+            deps = tomllib.load(f).get("project", {}).get("dependencies", [])
+        with open(path, encoding="utf-8") as f:
+            lines = f.read().splitlines()
+    except Exception:
+        return []  # a malformed pyproject.toml is reported by the loader
+
+    found = []
+    for dep in deps:
+        line = next((i + 1 for i, text in enumerate(lines) if dep in text), None)
+        try:
+            req = Requirement(dep)
+        except Exception as e:
+            found.append({"requirement": dep, "line": line, "error": f"Invalid requirement: {e}"})
+            continue
+        if canonicalize_name(req.name) == "yaduha":
+            continue
+        if req.marker is not None and not req.marker.evaluate():
+            continue
+        found.append({"requirement": dep, "line": line})
+    return found
+
+
+def _yaduha_plan(repo_dir, override, bundled_versions):
+    """Decide whether the installed yaduha fits, and what to install if not."""
+    declared = _declared_yaduha_specifier(repo_dir)
+    spec = SpecifierSet(f"=={override}" if override else (declared or ""))
+    installed = _dist_version("yaduha")
+    matching = sorted(
+        (Version(v) for v in bundled_versions if spec.contains(v, prereleases=True)),
+        reverse=True,
+    )
+    return {
+        "declared": declared,
+        "installed": installed,
+        "satisfied": spec.contains(installed, prereleases=True),
+        "bundled": str(matching[0]) if matching else None,
+        "requirement": f"yaduha{spec}",
+    }
+
+
+# Every language from the last validation that loaded, by code
+languages = {}
+
+
+def _language_for(code):
+    """The loaded language with this code, or the package's first one."""
+    if not code:
+        return language
+    if code not in languages:
+        raise ValueError(f"Language {code!r} is not loaded")
+    return languages[code]
+
+
+def _evict_yaduha_modules(repo_dir):
+    """Forget yaduha and the package's own modules so they re-import cleanly."""
+    for name, module in list(sys.modules.items()):
+        path = getattr(module, "__file__", None) or ""
+        if name == "yaduha" or name.startswith("yaduha.") or path.startswith(repo_dir + "/"):
+            del sys.modules[name]
+`);
+
+  pyodide.runPython(VALIDATION_PY);
+  pyodide.runPython(LINT_PY);
+  pyodide.runPython(FUZZ_PY);
+  pyodide.runPython(WATCHDOG_PY);
+  pyodide.runPython(REPL_PY);
+  pyodide.runPython(RELOAD_PY);
+  pyodide.runPython(BUILD_PY);
+
+  // From here on, print() and warnings go to the requesting caller
+  pyodide.setStdout({ batched: (text: string) => captureLine("stdout", text) });
+  pyodide.setStderr({ batched: (text: string) => captureLine("stderr", text) });
+
   self.postMessage({ type: "ready" });
 }
 
-self.onmessage = async (event) => {
-  const { type } = event.data;
+/**
+ * Make sure the installed yaduha satisfies the project's pyproject.toml
+ * constraint, or exactly `override` when the user pinned a version to test.
+ * Returns the resolution details reported back in ValidationResult.
+ */
+async function ensureYaduha(repoDir: string, override?: string) {
+  const bundled = Object.keys(wheelManifest?.yaduha ?? {});
+  pyodide.globals.set("_plan_args", JSON.stringify([repoDir, override ?? null, bundled]));
+  const plan = JSON.parse(
+    pyodide.runPython(`json.dumps(_yaduha_plan(*json.loads(_plan_args)))`)
+  );
+
+  if (!plan.satisfied) {
+    const origin = self.location.origin;
+    const requirement = plan.bundled
+      ? resolveYaduhaRequirement(wheelManifest, origin, plan.bundled)
+      : plan.requirement;
+    console.log(`[worker] switching yaduha ${plan.installed} -> ${requirement}`);
+
+    const micropip = pyodide.pyimport("micropip");
+    pyodide.runPython(`_evict_yaduha_modules(${JSON.stringify(repoDir)})`);
+    micropip.uninstall("yaduha");
+    await micropip.install(requirement);
+    plan.installed = pyodide.runPython(`_dist_version("yaduha")`);
+  }
 
-  if (type === "validate") {
-    const { files } = event.data;
-    try {
-      if (!pyodide) throw new Error("Pyodide not initialized");
+  return {
+    yaduha_version: plan.installed as string,
+    yaduha_requirement: (plan.declared as string | null) ?? undefined,
+    yaduha_override: override,
+  };
+}
 
-      const FS = pyodide.FS;
-      const repoDir = "/repo";
+/**
+ * Bring /repo in line with `files`, writing only what changed since the last
+ * validation and evicting the package modules that depend on it.
+ */
+function syncRepo(repoDir: string, files: Record<string, string>) {
+  const FS = pyodide.FS;
 
-      try {
-        pyodide.runPython(`
+  if (!writtenFiles) {
+    try {
+      pyodide.runPython(`
 import shutil, os
 if os.path.exists("${repoDir}"):
     shutil.rmtree("${repoDir}")
 `);
-      } catch {
-        // Directory may not exist yet
-      }
+    } catch {
+      // Directory may not exist yet
+    }
+    FS.mkdirTree(repoDir);
+  }
 
-      FS.mkdirTree(repoDir);
+  const previous = writtenFiles ?? {};
+  const changed = Object.keys(files).filter((path) => previous[path] !== files[path]);
+  const removed = Object.keys(previous).filter((path) => !(path in files));
+  // If writing fails partway, start from a clean directory next time
+  writtenFiles = null;
 
-      for (const [path, content] of Object.entries(files as Record<string, string>)) {
-        const fullPath = `${repoDir}/${path}`;
-        const dir = fullPath.substring(0, fullPath.lastIndexOf("/"));
-        FS.mkdirTree(dir);
-        FS.writeFile(fullPath, content);
-      }
+  for (const path of removed) {
+    try {
+      FS.unlink(`${repoDir}/${path}`);
+    } catch {
+      // Already gone
+    }
+  }
+  for (const path of changed) {
+    const fullPath = `${repoDir}/${path}`;
+    const dir = fullPath.substring(0, fullPath.lastIndexOf("/"));
+    FS.mkdirTree(dir);
+    FS.writeFile(fullPath, files[path]);
+  }
+  writtenFiles = files;
 
-      const result = pyodide.runPython(`
-import json
-import sys
-sys.path.insert(0, "${repoDir}")
+  pyodide.globals.set("_reload_args", JSON.stringify([repoDir, changed, removed]));
+  const reloaded: string[] = JSON.parse(
+    pyodide.runPython(`json.dumps(reload_repo_modules(*json.loads(_reload_args)))`)
+  );
+  return { files_written: changed.length, files_removed: removed.length, modules_reloaded: reloaded };
+}
 
-from yaduha.loader import LanguageLoader
+function dependencyIssue(requirement: string, line: number | undefined, reason: string) {
+  return {
+    code: "dependency-unavailable",
+    severity: "error",
+    message:
+      `Dependency "${requirement}" can't be loaded in Pyodide: ${reason}\n` +
+      "Only pure-Python wheels and packages built for Pyodide can be installed.",
+    file: "pyproject.toml",
+    line,
+    error_type: "DependencyError",
+  };
+}
 
-try:
-    language = LanguageLoader.load_language_from_source("${repoDir}")
-
-    # Build schema + examples for each sentence type
-    schemas = {}
-    for st in language.sentence_types:
-        schema_info = {
-            "name": st.__name__,
-            "json_schema": st.model_json_schema(),
-            "examples": [],
-        }
-        if hasattr(st, "get_examples"):
-            try:
-                for english, instance in st.get_examples():
-                    schema_info["examples"].append({
-                        "english": english,
-                        "structured": instance.model_dump(mode="json"),
-                        "target": str(instance),
-                    })
-            except Exception:
-                pass
-        schemas[st.__name__] = schema_info
-
-    result = {
-        "valid": True,
-        "language": language.code,
-        "name": language.name,
-        "sentence_types": [st.__name__ for st in language.sentence_types],
-        "schemas": schemas,
+/**
+ * Install the package's own [project] dependencies with micropip. Wheels
+ * come from PyPI or Pyodide's package index; the service worker caches them
+ * for offline use. Returns an issue for each one that can't be installed.
+ */
+async function installDependencies(repoDir: string) {
+  pyodide.globals.set("_deps_args", JSON.stringify([repoDir]));
+  const deps: { requirement: string; line: number | null; error?: string }[] = JSON.parse(
+    pyodide.runPython(`json.dumps(_declared_dependencies(*json.loads(_deps_args)))`)
+  );
+
+  const micropip = pyodide.pyimport("micropip");
+  const issues = [];
+  for (const dep of deps) {
+    if (dep.error) {
+      issues.push(dependencyIssue(dep.requirement, dep.line ?? undefined, dep.error));
+      continue;
     }
-except Exception as e:
-    result = {
-        "valid": False,
-        "error": str(e),
-        "error_type": type(e).__name__,
+    if (installedDependencies.has(dep.requirement)) continue;
+    try {
+      await micropip.install(dep.requirement);
+      installedDependencies.add(dep.requirement);
+    } catch (e) {
+      // micropip raises with a full Python traceback; the last line says why
+      const message = e instanceof Error ? e.message : String(e);
+      const reason = message.trim().split("\n").pop() ?? message;
+      issues.push(dependencyIssue(dep.requirement, dep.line ?? undefined, reason));
     }
+  }
+  return issues;
+}
+
+async function handleValidate(
+  files: Record<string, string>,
+  yaduhaVersion?: string
+) {
+  const repoDir = "/repo";
+  const started = performance.now();
+
+  const sync = syncRepo(repoDir, files);
+  const synced = performance.now();
+
+  const framework = await ensureYaduha(repoDir, yaduhaVersion);
+  const dependencyIssues = await installDependencies(repoDir);
+  pyodide.globals.set("_dependency_issues", JSON.stringify(dependencyIssues));
+
+  // Collects every issue instead of stopping at the first exception.
+  // `language` stays global for render/translate.
+  const result = pyodide.runPython(`
+import json
+import sys
+if "${repoDir}" not in sys.path:
+    sys.path.insert(0, "${repoDir}")
+
+_loaded_languages, _validation = validate_package("${repoDir}", json.loads(_dependency_issues))
+if _loaded_languages:
+    languages = _loaded_languages
+    language = next(iter(languages.values()))
 
-json.dumps(result)
+json.dumps(_validation)
 `);
 
-      self.postMessage({ type: "result", data: JSON.parse(result) });
-    } catch (e) {
-      self.postMessage({
-        type: "error",
-        message: e instanceof Error ? e.message : String(e),
-      });
-    }
-  }
+  const finished = performance.now();
+  const timing = {
+    ...sync,
+    sync_ms: Math.round(synced - started),
+    load_ms: Math.round(finished - synced),
+    total_ms: Math.round(finished - started),
+  };
+  console.log("[worker] validation timing:", timing);
 
-  if (type === "render") {
-    const { sentenceType, data } = event.data;
-    try {
-      if (!pyodide) throw new Error("Pyodide not initialized");
+  return { ...JSON.parse(result), ...framework, timing };
+}
 
-      pyodide.globals.set("_render_sentence_type", sentenceType);
-      pyodide.globals.set("_render_data", JSON.stringify(data));
+function handleRender(
+  sentenceType: string,
+  data: Record<string, unknown>,
+  languageCode?: string
+) {
+  pyodide.globals.set("_render_sentence_type", sentenceType);
+  pyodide.globals.set("_render_data", JSON.stringify(data));
+  pyodide.globals.set("_render_language", languageCode || "");
 
-      const result = pyodide.runPython(`
+  const result = pyodide.runPython(`
 import json
 
 try:
     _render_st_class = None
-    for _st in language.sentence_types:
+    for _st in _language_for(_render_language).sentence_types:
         if _st.__name__ == _render_sentence_type:
             _render_st_class = _st
             break
@@ -288,40 +546,61 @@ except Exception as e:
 json.dumps(_render_output)
 `);
 
-      self.postMessage({ type: "result", data: JSON.parse(result) });
-    } catch (e) {
-      self.postMessage({
-        type: "error",
-        message: e instanceof Error ? e.message : String(e),
-      });
-    }
-  }
+  return JSON.parse(result);
+}
 
-  if (type === "translate") {
-    const { english, provider, model, apiKey, origin } = event.data;
-    console.log("[worker] translate request:", { english, provider, model, hasApiKey: !!apiKey, origin });
-    try {
-      if (!pyodide) throw new Error("Pyodide not initialized");
+function handleRenderBatch(
+  sentenceType: string,
+  items: Record<string, unknown>[],
+  languageCode?: string
+) {
+  pyodide.globals.set("_batch_args", JSON.stringify([languageCode ?? null, sentenceType, items]));
+  return JSON.parse(
+    pyodide.runPython(`
+_batch_language, *_batch_rest = json.loads(_batch_args)
+json.dumps(render_many(_language_for(_batch_language), *_batch_rest, "/repo"))
+`)
+  );
+}
+
+function handleTranslate(params: {
+  english: string;
+  provider: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  origin: string;
+  language?: string;
+}) {
+  const { english, provider, model, apiKey, baseUrl, origin, language } = params;
+  console.log("[worker] translate request:", { english, provider, model, hasApiKey: !!apiKey, origin });
+
+  if (provider === "openai-compatible" && !baseUrl) {
+    throw new Error("No base URL for the OpenAI-compatible server. Set one in Account settings.");
+  }
 
-      // Set translate params as Python globals
-      pyodide.globals.set("_translate_english", english);
-      pyodide.globals.set("_translate_provider", provider);
-      pyodide.globals.set("_translate_model", model);
-      pyodide.globals.set("_translate_api_key", apiKey || "");
-      pyodide.globals.set("_translate_proxy_url", `${origin}/api/llm/chat`);
+  // Set translate params as Python globals
+  pyodide.globals.set("_translate_english", english);
+  pyodide.globals.set("_translate_provider", provider);
+  pyodide.globals.set("_translate_model", model);
+  pyodide.globals.set("_translate_api_key", apiKey || "");
+  pyodide.globals.set("_translate_proxy_url", `${origin}/api/llm/chat`);
+  pyodide.globals.set("_translate_base_url", baseUrl || "");
+  pyodide.globals.set("_translate_language", language || "");
 
-      const result = pyodide.runPython(`
+  const result = pyodide.runPython(`
 import json
 
-# language was loaded during validation
+# languages were loaded during validation
 try:
     _tr_result = translate_with_pipeline(
-        language,
+        _language_for(_translate_language),
         _translate_english,
         _translate_provider,
         _translate_model,
         _translate_api_key if _translate_api_key else None,
         _translate_proxy_url,
+        _translate_base_url or None,
     )
     _tr_output = {"ok": True, **_tr_result}
 except Exception as e:
@@ -330,14 +609,130 @@ except Exception as e:
 json.dumps(_tr_output)
 `);
 
-      console.log("[worker] translate result:", result);
-      self.postMessage({ type: "result", data: JSON.parse(result) });
-    } catch (e) {
-      console.error("[worker] translate error:", e);
-      self.postMessage({
-        type: "error",
-        message: e instanceof Error ? e.message : String(e),
-      });
+  console.log("[worker] translate result:", result);
+  return JSON.parse(result);
+}
+
+/** Run REPL input against a loaded language (if validation got that far). */
+function handleRepl(source: string, languageCode?: string) {
+  pyodide.globals.set("_repl_args", JSON.stringify([languageCode ?? null, source]));
+  return JSON.parse(
+    pyodide.runPython(`
+_repl_language, _repl_source = json.loads(_repl_args)
+json.dumps(repl_run(_language_for(_repl_language) if languages else None, _repl_source))
+`)
+  );
+}
+
+/**
+ * Build a distribution from the files last written to /repo, i.e. the last
+ * validated version of the package.
+ */
+function handleBuild(kind: string) {
+  pyodide.globals.set("_build_kind", kind);
+  return JSON.parse(
+    pyodide.runPython(`
+try:
+    _build_output = build_distribution("/repo", _build_kind)
+except Exception as e:
+    _build_output = {"error": str(e)}
+json.dumps(_build_output)
+`)
+  );
+}
+
+/**
+ * Editor language features via Jedi. Jedi is loaded on first use so it
+ * doesn't slow down startup for users who never open the editor.
+ */
+async function handleLanguageService(
+  action: "complete" | "definition" | "signatures",
+  params: { path: string; source: string; line: number; column: number }
+) {
+  if (!languageServiceLoaded) {
+    await pyodide.loadPackage("jedi");
+    pyodide.runPython(LANGUAGE_SERVICE_PY);
+    languageServiceLoaded = true;
+  }
+
+  const fn = { complete: "ls_complete", definition: "ls_definition", signatures: "ls_signatures" }[action];
+  pyodide.globals.set(
+    "_ls_args",
+    JSON.stringify(["/repo", params.path, params.source, params.line, params.column])
+  );
+  return JSON.parse(pyodide.runPython(`json.dumps(${fn}(*json.loads(_ls_args)))`));
+}
+
+/** Requests that run package code, which may loop forever */
+const WATCHED_TYPES = new Set(["validate", "render", "render_batch", "translate", "repl"]);
+/** Requests whose result carries the stdout/stderr printed while handling them */
+const CAPTURED_TYPES = new Set(["validate", "render", "translate", "repl"]);
+
+// Every request carries an `id`; replies echo it so the manager can match
+// results to callers even when several requests are queued.
+self.onmessage = async (event) => {
+  const { id, type } = event.data;
+  const watched = WATCHED_TYPES.has(type);
+  output = [];
+
+  try {
+    if (!pyodide) throw new Error("Pyodide not initialized");
+    if (watched) {
+      pyodide.globals.set("_watch_args", JSON.stringify([id, "/repo"]));
+      pyodide.runPython(`watch_start(*json.loads(_watch_args))`);
+    }
+
+    let data: unknown;
+    switch (type) {
+      case "validate":
+        data = await handleValidate(event.data.files, event.data.yaduhaVersion);
+        break;
+      case "render":
+        data = handleRender(event.data.sentenceType, event.data.data, event.data.language);
+        break;
+      case "render_batch":
+        data = handleRenderBatch(event.data.sentenceType, event.data.items, event.data.language);
+        break;
+      case "translate":
+        data = handleTranslate(event.data);
+        break;
+      case "repl":
+        data = handleRepl(event.data.source, event.data.language);
+        break;
+      case "build":
+        data = handleBuild(event.data.kind);
+        break;
+      case "complete":
+      case "definition":
+      case "signatures":
+        data = await handleLanguageService(type, event.data);
+        break;
+      default:
+        throw new Error(`Unknown request type: ${type}`);
+    }
+
+    if (CAPTURED_TYPES.has(type)) {
+      // Emit a trailing line that print(..., end="") left buffered
+      pyodide.runPython(`import sys; sys.stdout.flush(); sys.stderr.flush()`);
+      data = { ...(data as Record<string, unknown>), output };
+    }
+
+    self.postMessage({ id, type: "result", data });
+  } catch (e) {
+    console.error(`[worker] ${type} error:`, e);
+    self.postMessage({
+      id,
+      type: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+  } finally {
+    if (watched && pyodide) {
+      // The request has been answered; a failure here must not surface as its error
+      try {
+        pyodide.runPython(`watch_stop()`);
+      } catch (e) {
+        console.warn("[worker] watch_stop failed:", e);
+      }
     }
   }
 };
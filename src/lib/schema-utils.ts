@@ -139,6 +139,62 @@ export function buildDefaultValue(
   return null;
 }
 
+/**
+ * Build a random value for a schema node: a random enum value, union
+ * variant and array length, and sometimes null for optional fields. Used to
+ * fuzz sentence types; free-text fields get the schema's default or example.
+ */
+export function buildRandomValue(
+  schema: JsonSchema,
+  rootSchema: JsonSchema,
+  random: () => number = Math.random
+): unknown {
+  if (!schema) return null;
+
+  const resolved = resolveSchema(schema, rootSchema);
+  const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  if (resolved.anyOf) {
+    const variants = getUnionVariants(resolved.anyOf, rootSchema);
+    const hasNull = resolved.anyOf.some((item) => item.type === "null");
+    if (variants.length === 0 || (hasNull && random() < 0.25)) return null;
+    return buildRandomValue(pick(variants).schema, rootSchema, random);
+  }
+
+  if (resolved.enum) return resolved.enum.length > 0 ? pick(resolved.enum) : "";
+  if (resolved.type === "boolean") return random() < 0.5;
+
+  if (resolved.type === "integer" || resolved.type === "number") {
+    const min = typeof resolved.minimum === "number" ? resolved.minimum : 0;
+    const max = typeof resolved.maximum === "number" ? resolved.maximum : min + 10;
+    return min + Math.floor(random() * (max - min + 1));
+  }
+
+  if (resolved.type === "array" && resolved.items) {
+    const min = typeof resolved.minItems === "number" ? resolved.minItems : 0;
+    const max = typeof resolved.maxItems === "number" ? resolved.maxItems : min + 3;
+    const length = min + Math.floor(random() * (max - min + 1));
+    return Array.from({ length }, () =>
+      buildRandomValue(resolved.items as JsonSchema, rootSchema, random)
+    );
+  }
+
+  if (resolved.type === "object" && resolved.properties) {
+    const obj: Record<string, unknown> = {};
+    for (const [key, propSchema] of Object.entries(resolved.properties)) {
+      obj[key] = buildRandomValue(propSchema, rootSchema, random);
+    }
+    return obj;
+  }
+
+  if (resolved.default !== undefined) return resolved.default;
+  if (Array.isArray(resolved.examples) && resolved.examples.length > 0) {
+    return pick(resolved.examples);
+  }
+  if (resolved.type === "string") return "test";
+  return buildDefaultValue(resolved, rootSchema);
+}
+
 /**
  * Detect which union variant a value currently matches.
  */
@@ -200,3 +256,75 @@ export function formatEnumValue(val: string): string {
   if (!val) return "";
   return val.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
 }
+
+/**
+ * An enum-valued field somewhere in a form value, addressed by its path.
+ */
+export interface EnumField {
+  path: string[];
+  /** Dotted path, e.g. "subject.person" */
+  label: string;
+  values: string[];
+}
+
+/**
+ * Find the enum fields reachable in the current form value. Optional and
+ * union fields are followed into the variant the value currently holds.
+ */
+export function findEnumFields(
+  schema: JsonSchema,
+  rootSchema: JsonSchema,
+  value: unknown,
+  path: string[] = []
+): EnumField[] {
+  if (!schema) return [];
+  const resolved = resolveSchema(schema, rootSchema);
+  const field = (values: string[]): EnumField[] =>
+    path.length > 0 ? [{ path, label: path.join("."), values }] : [];
+
+  switch (classifySchema(schema, rootSchema)) {
+    case "enum": {
+      const enumSchema = resolved.enum
+        ? resolved
+        : resolveSchema(
+            (resolved.anyOf ?? []).find((item) => item.type !== "null") ?? {},
+            rootSchema
+          );
+      return field(enumSchema.enum ?? []);
+    }
+    case "optional": {
+      const inner = resolveSchema(
+        resolved.anyOf!.find((item) => item.type !== "null")!,
+        rootSchema
+      );
+      if (inner.enum) return field(inner.enum);
+      return value == null ? [] : findEnumFields(inner, rootSchema, value, path);
+    }
+    case "union": {
+      if (value == null) return [];
+      const variants = getUnionVariants(resolved.anyOf ?? [], rootSchema);
+      const active = variants.find((v) => v.name === detectVariant(value, variants));
+      if (!active) return [];
+      if (active.schema.enum) return field(active.schema.enum);
+      return findEnumFields(active.schema, rootSchema, value, path);
+    }
+    case "object": {
+      const obj = (value ?? {}) as Record<string, unknown>;
+      return Object.entries(resolved.properties ?? {}).flatMap(([key, propSchema]) =>
+        findEnumFields(propSchema, rootSchema, obj[key], [...path, key])
+      );
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Return a copy of `value` with the field at `path` replaced.
+ */
+export function setAtPath(value: unknown, path: string[], next: unknown): unknown {
+  if (path.length === 0) return next;
+  const [key, ...rest] = path;
+  const obj = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return { ...obj, [key]: setAtPath(obj[key], rest, next) };
+}
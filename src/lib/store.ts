@@ -3,14 +3,28 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
+/**
+ * "openai-compatible" is a self-hosted server (llama.cpp, Ollama, vLLM, ...)
+ * at a user-chosen base URL, which the proxy forwards requests to.
+ */
+export type LLMProvider = "anthropic" | "openai" | "openai-compatible";
+
 interface SettingsState {
   anthropicKey: string;
   openaiKey: string;
-  preferredProvider: "anthropic" | "openai";
+  compatibleKey: string;
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  compatibleBaseUrl: string;
+  /** Models offered by the OpenAI-compatible server */
+  compatibleModels: string[];
+  preferredProvider: LLMProvider;
   preferredModel: string;
   setAnthropicKey: (key: string) => void;
   setOpenaiKey: (key: string) => void;
-  setPreferredProvider: (provider: "anthropic" | "openai") => void;
+  setCompatibleKey: (key: string) => void;
+  setCompatibleBaseUrl: (url: string) => void;
+  setCompatibleModels: (models: string[]) => void;
+  setPreferredProvider: (provider: LLMProvider) => void;
   setPreferredModel: (model: string) => void;
   clearKeys: () => void;
 }
@@ -25,15 +39,21 @@ export interface Project {
 
 interface ProjectsState {
   projects: Project[];
+  yaduhaVersions: Record<string, string>; // "owner/repo" → pinned yaduha version
+  selectedLanguages: Record<string, string>; // "owner/repo" → language code, for multi-language repos
   addProject: (owner: string, repo: string) => void;
   removeProject: (owner: string, repo: string) => void;
   hasProject: (owner: string, repo: string) => boolean;
+  setYaduhaVersion: (repoKey: string, version: string) => void;
+  setSelectedLanguage: (repoKey: string, code: string) => void;
 }
 
 export const useProjects = create<ProjectsState>()(
   persist(
     (set, get) => ({
       projects: [],
+      yaduhaVersions: {},
+      selectedLanguages: {},
       addProject: (owner, repo) => {
         const existing = get().projects;
         if (existing.some((p) => p.owner === owner && p.repo === repo)) return;
@@ -47,6 +67,17 @@ export const useProjects = create<ProjectsState>()(
         })),
       hasProject: (owner, repo) =>
         get().projects.some((p) => p.owner === owner && p.repo === repo),
+      setYaduhaVersion: (repoKey, version) =>
+        set((state) => {
+          const next = { ...state.yaduhaVersions };
+          if (version) next[repoKey] = version;
+          else delete next[repoKey];
+          return { yaduhaVersions: next };
+        }),
+      setSelectedLanguage: (repoKey, code) =>
+        set((state) => ({
+          selectedLanguages: { ...state.selectedLanguages, [repoKey]: code },
+        })),
     }),
     { name: "yaduha-studio-projects" }
   )
@@ -68,6 +99,8 @@ export interface ChatSession {
   displayMessages: DisplayMessage[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   apiMessages: any[];
+  /** Whether each gold render case passed on the last run, by case id */
+  goldBaseline?: Record<string, boolean>;
   createdAt: string;
   updatedAt: string;
 }
@@ -88,6 +121,7 @@ interface ChatSessionsState {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     apiMessages: any[]
   ) => void;
+  setGoldBaseline: (sessionId: string, goldBaseline: Record<string, boolean>) => void;
 }
 
 function generateId(): string {
@@ -159,6 +193,13 @@ export const useChatSessions = create<ChatSessionsState>()(
               : s
           ),
         })),
+
+      setGoldBaseline: (sessionId, goldBaseline) =>
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId ? { ...s, goldBaseline } : s
+          ),
+        })),
     }),
     { name: "yaduha-studio-chat-sessions" }
   )
@@ -171,13 +212,19 @@ export const useSettings = create<SettingsState>()(
     (set) => ({
       anthropicKey: "",
       openaiKey: "",
+      compatibleKey: "",
+      compatibleBaseUrl: "",
+      compatibleModels: [],
       preferredProvider: "anthropic",
       preferredModel: "",
       setAnthropicKey: (key) => set({ anthropicKey: key }),
       setOpenaiKey: (key) => set({ openaiKey: key }),
+      setCompatibleKey: (key) => set({ compatibleKey: key }),
+      setCompatibleBaseUrl: (url) => set({ compatibleBaseUrl: url }),
+      setCompatibleModels: (models) => set({ compatibleModels: models }),
       setPreferredProvider: (provider) => set({ preferredProvider: provider }),
       setPreferredModel: (model) => set({ preferredModel: model }),
-      clearKeys: () => set({ anthropicKey: "", openaiKey: "" }),
+      clearKeys: () => set({ anthropicKey: "", openaiKey: "", compatibleKey: "" }),
     }),
     { name: "yaduha-studio-settings" }
   )